@@ -26,6 +26,9 @@ interface TextBox {
   y: number
   chars: TextChar[]
   zIndex: number
+  hidden: boolean  // left out of the canvas and exports
+  locked: boolean  // can't be selected or edited on the canvas
+  groups: number[]  // ids of the groups containing the object, outermost first
   strokeColor: EntityColor
   fillColor: EntityColor
 }
@@ -36,8 +39,12 @@ interface Rectangle {
   y1: number
   x2: number
   y2: number
+  strokeStyle: StrokeStyle
   bold: boolean
   zIndex: number
+  hidden: boolean  // left out of the canvas and exports
+  locked: boolean  // can't be selected or edited on the canvas
+  groups: number[]  // ids of the groups containing the object, outermost first
   strokeColor: EntityColor
   fillColor: EntityColor
 }
@@ -48,8 +55,18 @@ interface Line {
   y1: number
   x2: number
   y2: number
+  elbow: boolean  // route with horizontal and vertical segments only
+  waypoints: { x: number; y: number }[]  // vertices between the ends of an elbow line
+  startBinding: LineBinding | null  // set for connectors: the end follows this rectangle
+  endBinding: LineBinding | null
+  startMarker: LineMarker  // drawn in place of the end cell
+  endMarker: LineMarker
+  strokeStyle: StrokeStyle
   bold: boolean
   zIndex: number
+  hidden: boolean  // left out of the canvas and exports
+  locked: boolean  // can't be selected or edited on the canvas
+  groups: number[]  // ids of the groups containing the object, outermost first
   strokeColor: EntityColor
   fillColor: EntityColor  // not used for lines, but keeping consistent
 }
@@ -59,6 +76,9 @@ interface Freehand {
   points: { x: number; y: number }[]
   bold: boolean
   zIndex: number
+  hidden: boolean  // left out of the canvas and exports
+  locked: boolean  // can't be selected or edited on the canvas
+  groups: number[]  // ids of the groups containing the object, outermost first
   strokeColor: EntityColor
 }
 
@@ -84,103 +104,2721 @@ const FILL_PALETTE: (RGBA | null)[] = [
   RGBA.fromInts(80, 80, 30, 255),    // muted yellow
 ]
 
+// Colors used where an entity color is transparent (null)
+const DEFAULT_TEXT_COLOR = RGBA.fromInts(255, 255, 255, 255)
+const CANVAS_BG_COLOR = RGBA.fromInts(0, 0, 0, 255)
+
 type Tool = "move" | "text" | "rectangle" | "line" | "freehand"
 
-interface ToolInfo {
-  name: string
-  key: string
+interface ToolInfo {
+  name: string
+  key: string
+}
+
+const TOOLS: Record<Tool, ToolInfo> = {
+  move: { name: "Move", key: "M" },
+  text: { name: "Text", key: "T" },
+  rectangle: { name: "Rectangle", key: "R" },
+  line: { name: "Line", key: "L" },
+  freehand: { name: "Pencil", key: "P" }
+}
+
+type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | null
+
+// Where a connector end attaches to a rectangle: a side, along which the end slides to face
+// the other end, or a fixed point (a corner or the middle of a side)
+const BINDING_POINTS = ["top", "right", "bottom", "left", "nw", "n", "ne", "e", "se", "s", "sw", "w"] as const
+type BindingPoint = typeof BINDING_POINTS[number]
+
+interface LineBinding {
+  rectId: number
+  point: BindingPoint
+}
+
+// What's drawn at a line end; arrows point away from the line. Plain ends stop halfway into
+// their cell, full ones run through it.
+const LINE_MARKERS = ["none", "arrow", "circle", "diamond", "ascii", "full"] as const
+type LineMarker = typeof LINE_MARKERS[number]
+
+// Glyph set for the outline of rectangles and lines
+const STROKE_STYLES = ["light", "heavy", "double", "dashed", "rounded", "ascii"] as const
+type StrokeStyle = typeof STROKE_STYLES[number]
+
+// Braille dot bits by [row][column] within a 2x4 cell (U+2800 + bits)
+const BRAILLE_DOTS = [
+  [0x01, 0x08],
+  [0x02, 0x10],
+  [0x04, 0x20],
+  [0x40, 0x80],
+]
+
+// Where the minimap sits on screen and which world area it shows
+interface MinimapLayout {
+  x: number  // inner area, screen coordinates
+  y: number
+  width: number
+  height: number
+  worldX: number  // world position of the inner area's top-left corner
+  worldY: number
+  scale: number  // world cells per minimap cell, in both directions
+}
+
+// Align commands: edges, or centers ("center" horizontally, "middle" vertically)
+type AlignMode = "left" | "right" | "top" | "bottom" | "center" | "middle"
+
+// A temporary guide shown while a moved selection lines up with another object
+interface AlignmentGuide {
+  vertical: boolean  // vertical guides mark an x position, horizontal ones a y position
+  position: number
+  from: number  // extent along the guide
+  to: number
+}
+
+// What the filename-style prompt is asking for
+type PromptMode = "save" | "export" | "page" | "frame" | "rename" | "delete"
+
+const PROMPT_LABELS: Record<PromptMode, { title: string; hint: string }> = {
+  save: { title: " Save As ", hint: "Enter to save, Esc to cancel" },
+  export: { title: " Export As ", hint: "Enter to export, Esc to cancel" },
+  page: { title: " Page Size ", hint: "WxH, empty for none, Esc to cancel" },
+  frame: { title: " New Frame ", hint: "Enter to create, Esc to cancel" },
+  rename: { title: " Rename Frame ", hint: "Enter to rename, Esc to cancel" },
+  delete: { title: " Delete Frame ", hint: "Enter to delete, Esc to cancel" },
+}
+
+interface HistorySnapshot {
+  textBoxes: TextBox[]
+  rectangles: Rectangle[]
+  lines: Line[]
+  freehands: Freehand[]
+  nextTextBoxId: number
+  nextRectId: number
+  nextLineId: number
+  nextFreehandId: number
+  nextGroupId: number
+  nextZIndex: number
+}
+
+// A frame that isn't being edited, with its own undo history and scroll position
+interface StoredFrame {
+  frame: TigmaFrame
+  historyStack: HistorySnapshot[]
+  redoStack: HistorySnapshot[]
+  viewportX: number
+  viewportY: number
+}
+
+// File format for saving/loading designs
+interface TigmaFile {
+  version: typeof FILE_VERSION
+  frames: TigmaFrame[]  // never empty; the first one opens by default
+}
+
+// A named artboard with its own objects, id counters and page
+interface TigmaFrame {
+  name: string
+  textBoxes: SerializedTextBox[]
+  rectangles: SerializedRectangle[]
+  lines: SerializedLine[]
+  freehands: SerializedFreehand[]
+  nextTextBoxId: number
+  nextRectId: number
+  nextLineId: number
+  nextFreehandId: number
+  nextGroupId: number
+  nextZIndex: number
+  page: PageSize | null  // null: unbounded canvas
+}
+
+// Fixed document area starting at the world origin, e.g. 80x24 for a terminal
+interface PageSize {
+  width: number
+  height: number
+}
+
+// Serialized versions with colors as arrays instead of RGBA objects
+interface SerializedColor {
+  r: number
+  g: number
+  b: number
+  a: number
+}
+
+interface SerializedTextChar {
+  char: string
+  bold: boolean
+  color: SerializedColor | null
+}
+
+interface SerializedTextBox {
+  id: number
+  x: number
+  y: number
+  chars: SerializedTextChar[]
+  zIndex: number
+  hidden: boolean
+  locked: boolean
+  groups: number[]
+  strokeColor: SerializedColor | null
+  fillColor: SerializedColor | null
+}
+
+interface SerializedRectangle {
+  id: number
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  strokeStyle: StrokeStyle
+  bold: boolean
+  zIndex: number
+  hidden: boolean
+  locked: boolean
+  groups: number[]
+  strokeColor: SerializedColor | null
+  fillColor: SerializedColor | null
+}
+
+interface SerializedLine {
+  id: number
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  elbow: boolean
+  waypoints: { x: number; y: number }[]
+  startBinding: LineBinding | null
+  endBinding: LineBinding | null
+  startMarker: LineMarker
+  endMarker: LineMarker
+  strokeStyle: StrokeStyle
+  bold: boolean
+  zIndex: number
+  hidden: boolean
+  locked: boolean
+  groups: number[]
+  strokeColor: SerializedColor | null
+  fillColor: SerializedColor | null
+}
+
+interface SerializedFreehand {
+  id: number
+  points: { x: number; y: number }[]
+  bold: boolean
+  zIndex: number
+  hidden: boolean
+  locked: boolean
+  groups: number[]
+  strokeColor: SerializedColor | null
+}
+
+// All drawable objects of a design, independent of any editor state
+interface Scene {
+  textBoxes: TextBox[]
+  rectangles: Rectangle[]
+  lines: Line[]
+  freehands: Freehand[]
+}
+
+// A single object of a scene, tagged with its kind
+type SceneItem =
+  | { type: "text"; obj: TextBox }
+  | { type: "rect"; obj: Rectangle }
+  | { type: "line"; obj: Line }
+  | { type: "freehand"; obj: Freehand }
+
+interface Bounds {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+// A single composed character cell (null colors are transparent)
+interface RasterCell {
+  char: string
+  fg: EntityColor
+  bg: EntityColor
+  bold: boolean
+  stroke: StrokeCell | null  // set for box-drawing strokes, which merge with the strokes they meet
+}
+
+// The box-drawing arms in a cell, with the style of each direction
+interface StrokeCell {
+  bits: number  // BOX_* arms
+  hStyle: StrokeStyle  // left and right arms
+  vStyle: StrokeStyle  // up and down arms
+  open: number  // for a free line end, the BOX_* direction it points in (0 otherwise)
+}
+
+// ==================== File Format ====================
+
+function serializeColor(color: EntityColor): SerializedColor | null {
+  if (color === null) return null
+  return { r: color.r, g: color.g, b: color.b, a: color.a }
+}
+
+function deserializeColor(color: SerializedColor | null): EntityColor {
+  if (color === null) return null
+  return RGBA.fromValues(color.r, color.g, color.b, color.a)
+}
+
+function serializeTextBox(box: TextBox): SerializedTextBox {
+  return {
+    id: box.id,
+    x: box.x,
+    y: box.y,
+    chars: box.chars.map(c => ({
+      char: c.char,
+      bold: c.bold,
+      color: serializeColor(c.color),
+    })),
+    zIndex: box.zIndex,
+    hidden: box.hidden,
+    locked: box.locked,
+    groups: [...box.groups],
+    strokeColor: serializeColor(box.strokeColor),
+    fillColor: serializeColor(box.fillColor),
+  }
+}
+
+function deserializeTextBox(box: SerializedTextBox): TextBox {
+  return {
+    id: box.id,
+    x: box.x,
+    y: box.y,
+    chars: box.chars.map(c => ({
+      char: c.char,
+      bold: c.bold,
+      color: deserializeColor(c.color),
+    })),
+    zIndex: box.zIndex,
+    hidden: box.hidden,
+    locked: box.locked,
+    groups: [...box.groups],
+    strokeColor: deserializeColor(box.strokeColor),
+    fillColor: deserializeColor(box.fillColor),
+  }
+}
+
+function serializeRectangle(rect: Rectangle): SerializedRectangle {
+  return {
+    id: rect.id,
+    x1: rect.x1,
+    y1: rect.y1,
+    x2: rect.x2,
+    y2: rect.y2,
+    strokeStyle: rect.strokeStyle,
+    bold: rect.bold,
+    zIndex: rect.zIndex,
+    hidden: rect.hidden,
+    locked: rect.locked,
+    groups: [...rect.groups],
+    strokeColor: serializeColor(rect.strokeColor),
+    fillColor: serializeColor(rect.fillColor),
+  }
+}
+
+function deserializeRectangle(rect: SerializedRectangle): Rectangle {
+  return {
+    id: rect.id,
+    x1: rect.x1,
+    y1: rect.y1,
+    x2: rect.x2,
+    y2: rect.y2,
+    strokeStyle: rect.strokeStyle,
+    bold: rect.bold,
+    zIndex: rect.zIndex,
+    hidden: rect.hidden,
+    locked: rect.locked,
+    groups: [...rect.groups],
+    strokeColor: deserializeColor(rect.strokeColor),
+    fillColor: deserializeColor(rect.fillColor),
+  }
+}
+
+function serializeLine(line: Line): SerializedLine {
+  return {
+    id: line.id,
+    x1: line.x1,
+    y1: line.y1,
+    x2: line.x2,
+    y2: line.y2,
+    elbow: line.elbow,
+    waypoints: line.waypoints.map(p => ({ x: p.x, y: p.y })),
+    startBinding: line.startBinding && { ...line.startBinding },
+    endBinding: line.endBinding && { ...line.endBinding },
+    startMarker: line.startMarker,
+    endMarker: line.endMarker,
+    strokeStyle: line.strokeStyle,
+    bold: line.bold,
+    zIndex: line.zIndex,
+    hidden: line.hidden,
+    locked: line.locked,
+    groups: [...line.groups],
+    strokeColor: serializeColor(line.strokeColor),
+    fillColor: serializeColor(line.fillColor),
+  }
+}
+
+function deserializeLine(line: SerializedLine): Line {
+  return {
+    id: line.id,
+    x1: line.x1,
+    y1: line.y1,
+    x2: line.x2,
+    y2: line.y2,
+    elbow: line.elbow,
+    waypoints: line.waypoints.map(p => ({ x: p.x, y: p.y })),
+    startBinding: line.startBinding && { ...line.startBinding },
+    endBinding: line.endBinding && { ...line.endBinding },
+    startMarker: line.startMarker,
+    endMarker: line.endMarker,
+    strokeStyle: line.strokeStyle,
+    bold: line.bold,
+    zIndex: line.zIndex,
+    hidden: line.hidden,
+    locked: line.locked,
+    groups: [...line.groups],
+    strokeColor: deserializeColor(line.strokeColor),
+    fillColor: deserializeColor(line.fillColor),
+  }
+}
+
+function serializeFreehand(freehand: Freehand): SerializedFreehand {
+  return {
+    id: freehand.id,
+    points: freehand.points.map(p => ({ x: p.x, y: p.y })),
+    bold: freehand.bold,
+    zIndex: freehand.zIndex,
+    hidden: freehand.hidden,
+    locked: freehand.locked,
+    groups: [...freehand.groups],
+    strokeColor: serializeColor(freehand.strokeColor),
+  }
+}
+
+function deserializeFreehand(freehand: SerializedFreehand): Freehand {
+  return {
+    id: freehand.id,
+    points: freehand.points.map(p => ({ x: p.x, y: p.y })),
+    bold: freehand.bold,
+    zIndex: freehand.zIndex,
+    hidden: freehand.hidden,
+    locked: freehand.locked,
+    groups: [...freehand.groups],
+    strokeColor: deserializeColor(freehand.strokeColor),
+  }
+}
+
+function sceneFromFrame(frame: TigmaFrame): Scene {
+  return {
+    textBoxes: frame.textBoxes.map(b => deserializeTextBox(b)),
+    rectangles: frame.rectangles.map(r => deserializeRectangle(r)),
+    lines: frame.lines.map(l => deserializeLine(l)),
+    freehands: frame.freehands.map(f => deserializeFreehand(f)),
+  }
+}
+
+const DEFAULT_FRAME_NAME = "Frame 1"
+
+// Wrap a scene as a frame, continuing ids and layers after its highest values
+function sceneToFrame(scene: Scene, name: string): TigmaFrame {
+  const nextId = (objects: { id: number }[]) => Math.max(0, ...objects.map(o => o.id)) + 1
+  const objects = [...scene.textBoxes, ...scene.rectangles, ...scene.lines, ...scene.freehands]
+  const zIndices = objects.map(o => o.zIndex)
+  const groupIds = objects.flatMap(o => o.groups)
+
+  return {
+    name,
+    textBoxes: scene.textBoxes.map(b => serializeTextBox(b)),
+    rectangles: scene.rectangles.map(r => serializeRectangle(r)),
+    lines: scene.lines.map(l => serializeLine(l)),
+    freehands: scene.freehands.map(f => serializeFreehand(f)),
+    nextTextBoxId: nextId(scene.textBoxes),
+    nextRectId: nextId(scene.rectangles),
+    nextLineId: nextId(scene.lines),
+    nextFreehandId: nextId(scene.freehands),
+    nextGroupId: Math.max(0, ...groupIds) + 1,
+    nextZIndex: Math.max(0, ...zIndices) + 1,
+    page: null,
+  }
+}
+
+// A single-frame design holding the scene
+function sceneToFileData(scene: Scene): TigmaFile {
+  return { version: FILE_VERSION, frames: [sceneToFrame(scene, DEFAULT_FRAME_NAME)] }
+}
+
+// The frame with the given name, or the first one if no name is given
+function findFrame(data: TigmaFile, name: string | null): TigmaFrame {
+  if (name === null) return data.frames[0]!
+  const frame = data.frames.find(f => f.name === name)
+  if (!frame) {
+    throw new Error(`No frame named "${name}" (frames: ${data.frames.map(f => `"${f.name}"`).join(", ")})`)
+  }
+  return frame
+}
+
+// ==================== File Validation ====================
+
+// Version written by this build; older files are migrated up to it on load
+const FILE_VERSION = 10
+
+// A problem found while loading a file, located by a path like `rectangles[2].x1`
+interface FileIssue {
+  path: string
+  message: string
+}
+
+type RawFile = Record<string, unknown>
+
+const OBJECT_COLLECTIONS = ["textBoxes", "rectangles", "lines", "freehands"]
+
+// Apply `update` to the objects of the given collections in every frame. Malformed parts are
+// left alone for validation to report.
+function migrateFrameObjects(data: RawFile, collections: string[], update: (object: RawFile) => RawFile): RawFile {
+  if (!Array.isArray(data.frames)) return data
+  return {
+    ...data,
+    frames: data.frames.map(frame => {
+      if (!isRecord(frame)) return frame
+      const updated: RawFile = { ...frame }
+      for (const key of collections) {
+        const objects = frame[key]
+        if (Array.isArray(objects)) updated[key] = objects.map(o => isRecord(o) ? update(o) : o)
+      }
+      return updated
+    }),
+  }
+}
+
+// Each migration upgrades a file from the version it's keyed by to the next one
+const FILE_MIGRATIONS: Record<number, (data: RawFile) => RawFile> = {
+  // v1 files written before freehand drawing have no freehand collection or counter
+  1: data => ({
+    ...data,
+    version: 2,
+    freehands: data.freehands ?? [],
+    nextFreehandId: data.nextFreehandId ?? 1,
+  }),
+  // v2 files have no page size
+  2: data => ({ ...data, version: 3, page: null }),
+  // v3 files hold a single drawing, which becomes the only frame
+  3: data => {
+    const frame: RawFile = { name: DEFAULT_FRAME_NAME, ...data }
+    delete frame.version
+    return { version: 4, frames: [frame] }
+  },
+  // v4 objects are all visible and unlocked
+  4: data => ({
+    ...migrateFrameObjects(data, OBJECT_COLLECTIONS, o => ({ ...o, hidden: false, locked: false })),
+    version: 5,
+  }),
+  // v5 has no groups
+  5: data => {
+    const migrated = migrateFrameObjects(data, OBJECT_COLLECTIONS, o => ({ ...o, groups: [] }))
+    const frames = Array.isArray(migrated.frames)
+      ? migrated.frames.map(frame => isRecord(frame) ? { ...frame, nextGroupId: 1 } : frame)
+      : migrated.frames
+    return { ...migrated, version: 6, frames }
+  },
+  // v6 lines are never attached to shapes
+  6: data => ({
+    ...migrateFrameObjects(data, ["lines"], o => ({ ...o, startBinding: null, endBinding: null })),
+    version: 7,
+  }),
+  // v7 lines have plain ends
+  7: data => ({
+    ...migrateFrameObjects(data, ["lines"], o => ({ ...o, startMarker: "none", endMarker: "none" })),
+    version: 8,
+  }),
+  // v8 lines are all straight
+  8: data => ({
+    ...migrateFrameObjects(data, ["lines"], o => ({ ...o, elbow: false, waypoints: [] })),
+    version: 9,
+  }),
+  // v9 outlines are all drawn with light box-drawing characters
+  9: data => ({
+    ...migrateFrameObjects(data, ["rectangles", "lines"], o => ({ ...o, strokeStyle: "light" })),
+    version: 10,
+  }),
+}
+
+// Checks a value, recording an issue for every bad field below `path`
+type Validator = (value: unknown, path: string, issues: FileIssue[]) => boolean
+
+function isRecord(value: unknown): value is RawFile {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) return "nothing"
+  if (Array.isArray(value)) return "an array"
+  if (isRecord(value)) return "an object"
+  const json = JSON.stringify(value)
+  return json.length > 20 ? `${json.slice(0, 17)}...` : json
+}
+
+function reportInvalid(issues: FileIssue[], path: string, expected: string, value: unknown): false {
+  issues.push({ path, message: `expected ${expected}, got ${describeValue(value)}` })
+  return false
+}
+
+const validateInteger: Validator = (value, path, issues) =>
+  Number.isInteger(value) || reportInvalid(issues, path, "an integer", value)
+
+const validateBoolean: Validator = (value, path, issues) =>
+  typeof value === "boolean" || reportInvalid(issues, path, "true or false", value)
+
+const validateName: Validator = (value, path, issues) =>
+  (typeof value === "string" && value.trim() !== "") || reportInvalid(issues, path, "a non-empty string", value)
+
+const validateCharacter: Validator = (value, path, issues) =>
+  (typeof value === "string" && Array.from(value).length === 1) ||
+  reportInvalid(issues, path, "a single character", value)
+
+const validatePositiveInteger: Validator = (value, path, issues) =>
+  (Number.isInteger(value) && (value as number) > 0) || reportInvalid(issues, path, "a positive integer", value)
+
+const validateChannel: Validator = (value, path, issues) =>
+  (typeof value === "number" && value >= 0 && value <= 1) ||
+  reportInvalid(issues, path, "a number from 0 to 1", value)
+
+function nullable(validator: Validator): Validator {
+  return (value, path, issues) => value === null || validator(value, path, issues)
+}
+
+// Validates every field (not stopping at the first bad one); unknown fields are ignored
+function objectOf(fields: Record<string, Validator>): Validator {
+  return (value, path, issues) => {
+    if (!isRecord(value)) return reportInvalid(issues, path, "an object", value)
+    let valid = true
+    for (const [key, validator] of Object.entries(fields)) {
+      if (!validator(value[key], `${path}.${key}`, issues)) valid = false
+    }
+    return valid
+  }
+}
+
+function oneOf(values: readonly string[]): Validator {
+  return (value, path, issues) =>
+    (values as readonly unknown[]).includes(value) || reportInvalid(issues, path, `one of ${values.join(", ")}`, value)
+}
+
+function arrayOf(item: Validator, minLength = 0): Validator {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) return reportInvalid(issues, path, "an array", value)
+    let valid = true
+    value.forEach((element, i) => {
+      if (!item(element, `${path}[${i}]`, issues)) valid = false
+    })
+    if (value.length < minLength) {
+      issues.push({ path, message: `expected at least ${minLength} item(s), got ${value.length}` })
+      valid = false
+    }
+    return valid
+  }
+}
+
+const validateColor = nullable(objectOf({
+  r: validateChannel,
+  g: validateChannel,
+  b: validateChannel,
+  a: validateChannel,
+}))
+
+const validateTextBox = objectOf({
+  id: validateInteger,
+  x: validateInteger,
+  y: validateInteger,
+  chars: arrayOf(objectOf({ char: validateCharacter, bold: validateBoolean, color: validateColor })),
+  zIndex: validateInteger,
+  hidden: validateBoolean,
+  locked: validateBoolean,
+  groups: arrayOf(validateInteger),
+  strokeColor: validateColor,
+  fillColor: validateColor,
+})
+
+// Rectangles and lines share the same shape
+const SEGMENT_SHAPE_FIELDS: Record<string, Validator> = {
+  id: validateInteger,
+  x1: validateInteger,
+  y1: validateInteger,
+  x2: validateInteger,
+  y2: validateInteger,
+  strokeStyle: oneOf(STROKE_STYLES),
+  bold: validateBoolean,
+  zIndex: validateInteger,
+  hidden: validateBoolean,
+  locked: validateBoolean,
+  groups: arrayOf(validateInteger),
+  strokeColor: validateColor,
+  fillColor: validateColor,
+}
+
+const validateBinding = nullable(objectOf({ rectId: validateInteger, point: oneOf(BINDING_POINTS) }))
+
+const validateRectangle = objectOf(SEGMENT_SHAPE_FIELDS)
+
+const validateLine = objectOf({
+  ...SEGMENT_SHAPE_FIELDS,
+  elbow: validateBoolean,
+  waypoints: arrayOf(objectOf({ x: validateInteger, y: validateInteger })),
+  startBinding: validateBinding,
+  endBinding: validateBinding,
+  startMarker: oneOf(LINE_MARKERS),
+  endMarker: oneOf(LINE_MARKERS),
+})
+
+const validatePage = nullable(objectOf({
+  width: validatePositiveInteger,
+  height: validatePositiveInteger,
+}))
+
+const validateFreehand = objectOf({
+  id: validateInteger,
+  points: arrayOf(objectOf({ x: validateInteger, y: validateInteger }), 1),
+  bold: validateBoolean,
+  zIndex: validateInteger,
+  hidden: validateBoolean,
+  locked: validateBoolean,
+  groups: arrayOf(validateInteger),
+  strokeColor: validateColor,
+})
+
+// Keep the valid objects of a collection; bad or duplicate-id ones are reported and dropped
+function recoverObjects<T extends { id: number }>(
+  value: unknown,
+  path: string,
+  validator: Validator,
+  issues: FileIssue[],
+): T[] {
+  if (!Array.isArray(value)) {
+    reportInvalid(issues, path, "an array", value)
+    return []
+  }
+
+  const objects: T[] = []
+  const ids = new Set<number>()
+  value.forEach((element, i) => {
+    const elementPath = `${path}[${i}]`
+    if (!validator(element, elementPath, issues)) return
+    const object = element as T
+    if (ids.has(object.id)) {
+      issues.push({ path: `${elementPath}.id`, message: `duplicate id ${object.id}` })
+      return
+    }
+    ids.add(object.id)
+    objects.push(object)
+  })
+  return objects
+}
+
+// Counters must stay above every loaded value, or new objects would reuse ids/layers
+function recoverCounter(value: unknown, path: string, used: number[], issues: FileIssue[]): number {
+  const minimum = Math.max(0, ...used) + 1
+  if (!validateInteger(value, path, issues)) return minimum
+  if ((value as number) < minimum) {
+    issues.push({ path, message: `expected at least ${minimum}, got ${value}` })
+    return minimum
+  }
+  return value as number
+}
+
+// Validate one frame, keeping its valid objects. Bad names are replaced with `fallbackName`.
+// An empty `path` means the frame's fields sit at the top level of the file.
+function recoverFrame(data: RawFile, path: string, fallbackName: string, issues: FileIssue[]): TigmaFrame {
+  const at = (key: string) => path === "" ? key : `${path}.${key}`
+  const name = validateName(data.name, at("name"), issues) ? (data.name as string) : fallbackName
+  const textBoxes = recoverObjects<SerializedTextBox>(data.textBoxes, at("textBoxes"), validateTextBox, issues)
+  const rectangles = recoverObjects<SerializedRectangle>(data.rectangles, at("rectangles"), validateRectangle, issues)
+  const lines = recoverObjects<SerializedLine>(data.lines, at("lines"), validateLine, issues)
+  const freehands = recoverObjects<SerializedFreehand>(data.freehands, at("freehands"), validateFreehand, issues)
+  const zIndices = [...textBoxes, ...rectangles, ...lines, ...freehands].map(o => o.zIndex)
+  const counter = (key: string, used: number[]) => recoverCounter(data[key], at(key), used, issues)
+
+  // Connectors attached to a rectangle that didn't load become plain lines
+  const rectIds = new Set(rectangles.map(r => r.id))
+  for (const line of lines) {
+    for (const key of ["startBinding", "endBinding"] as const) {
+      const binding = line[key]
+      if (binding && !rectIds.has(binding.rectId)) {
+        issues.push({ path: at("lines"), message: `line ${line.id} is attached to missing rectangle ${binding.rectId}, detached` })
+        line[key] = null
+      }
+    }
+  }
+
+  return {
+    name,
+    textBoxes,
+    rectangles,
+    lines,
+    freehands,
+    nextTextBoxId: counter("nextTextBoxId", textBoxes.map(b => b.id)),
+    nextRectId: counter("nextRectId", rectangles.map(r => r.id)),
+    nextLineId: counter("nextLineId", lines.map(l => l.id)),
+    nextFreehandId: counter("nextFreehandId", freehands.map(f => f.id)),
+    nextGroupId: counter("nextGroupId", [...textBoxes, ...rectangles, ...lines, ...freehands].flatMap(o => o.groups)),
+    nextZIndex: counter("nextZIndex", zIndices),
+    page: validatePage(data.page, at("page"), issues) ? data.page as PageSize | null : null,
+  }
+}
+
+// Migrate parsed JSON to the current version and validate it. Objects with bad fields are
+// skipped and reported in `issues`; throws only if the file can't be read as a design at all.
+function validateTigmaFile(raw: unknown, issues: FileIssue[]): TigmaFile {
+  if (!isRecord(raw)) {
+    throw new Error(`Invalid design file: expected a JSON object, got ${describeValue(raw)}`)
+  }
+
+  const version = raw.version
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    throw new Error(`Invalid design file: version: expected a positive integer, got ${describeValue(version)}`)
+  }
+  if ((version as number) > FILE_VERSION) {
+    throw new Error(`Unsupported file version: ${version} (newest supported is ${FILE_VERSION})`)
+  }
+
+  let data = raw
+  for (let v = version as number; v < FILE_VERSION; v++) {
+    data = FILE_MIGRATIONS[v]!(data)
+  }
+
+  if (!Array.isArray(data.frames)) {
+    throw new Error(`Invalid design file: frames: expected an array, got ${describeValue(data.frames)}`)
+  }
+
+  // Files from before frames hold a single drawing at the top level, so their issues are
+  // reported against the fields the user actually wrote rather than the migrated frame
+  const singleDrawing = (version as number) < 4
+  const frames: TigmaFrame[] = []
+  data.frames.forEach((rawFrame, i) => {
+    const path = singleDrawing ? "" : `frames[${i}]`
+    if (!isRecord(rawFrame)) {
+      reportInvalid(issues, path, "an object", rawFrame)
+      return
+    }
+    const frame = recoverFrame(rawFrame, path, `Frame ${i + 1}`, issues)
+    // Frames are addressed by name, so names must be unique
+    if (frames.some(f => f.name === frame.name)) {
+      let suffix = 2
+      while (frames.some(f => f.name === `${frame.name} (${suffix})`)) suffix++
+      issues.push({ path: `${path}.name`, message: `duplicate name "${frame.name}", renamed to "${frame.name} (${suffix})"` })
+      frame.name = `${frame.name} (${suffix})`
+    }
+    frames.push(frame)
+  })
+
+  if (frames.length === 0) {
+    issues.push({ path: "frames", message: "no usable frames, starting with an empty one" })
+    frames.push(sceneToFrame({ textBoxes: [], rectangles: [], lines: [], freehands: [] }, DEFAULT_FRAME_NAME))
+  }
+
+  return { version: FILE_VERSION, frames }
+}
+
+function formatFileIssue(issue: FileIssue): string {
+  return `${issue.path}: ${issue.message}`
+}
+
+// Read, migrate and validate a .tigma file. Recoverable problems are added to `issues`;
+// throws if the file can't be used at all.
+function readTigmaFile(filePath: string, issues: FileIssue[] = []): TigmaFile {
+  const content = fs.readFileSync(filePath, "utf-8")
+  return validateTigmaFile(JSON.parse(content), issues)
+}
+
+// ==================== Geometry ====================
+
+function normalizeRect(rect: Rectangle): Bounds {
+  return {
+    x1: Math.min(rect.x1, rect.x2),
+    y1: Math.min(rect.y1, rect.y2),
+    x2: Math.max(rect.x1, rect.x2),
+    y2: Math.max(rect.y1, rect.y2),
+  }
+}
+
+function normalizeLine(line: Line): Bounds {
+  // For lines, we keep the original direction but ensure consistent ordering for bounds.
+  // Elbow bends never leave the box around the vertices.
+  const xs = [line.x1, line.x2, ...line.waypoints.map(p => p.x)]
+  const ys = [line.y1, line.y2, ...line.waypoints.map(p => p.y)]
+  return {
+    x1: Math.min(...xs),
+    y1: Math.min(...ys),
+    x2: Math.max(...xs),
+    y2: Math.max(...ys),
+  }
+}
+
+function translateLine(line: Line, dx: number, dy: number): void {
+  line.x1 += dx
+  line.y1 += dy
+  line.x2 += dx
+  line.y2 += dy
+  for (const point of line.waypoints) {
+    point.x += dx
+    point.y += dy
+  }
+}
+
+// The ends and waypoints of a line, in order
+function getLineVertices(line: Line): { x: number; y: number }[] {
+  return [{ x: line.x1, y: line.y1 }, ...line.waypoints, { x: line.x2, y: line.y2 }]
+}
+
+const VERTICAL_BINDING_POINTS: BindingPoint[] = ["top", "bottom", "n", "s"]
+const HORIZONTAL_BINDING_POINTS: BindingPoint[] = ["left", "right", "w", "e"]
+
+// Vertices of an elbow line plus a bend between any two that aren't lined up. Bends go
+// horizontal first, except that connectors leave and enter a rectangle square to its side.
+function getElbowCorners(line: Line): { x: number; y: number }[] {
+  const vertices = getLineVertices(line)
+  const corners = [vertices[0]!]
+  for (let i = 1; i < vertices.length; i++) {
+    const a = vertices[i - 1]!
+    const b = vertices[i]!
+    if (a.x !== b.x && a.y !== b.y) {
+      let verticalFirst = false
+      if (i === 1 && line.startBinding) {
+        verticalFirst = VERTICAL_BINDING_POINTS.includes(line.startBinding.point)
+      } else if (i === vertices.length - 1 && line.endBinding) {
+        verticalFirst = HORIZONTAL_BINDING_POINTS.includes(line.endBinding.point)
+      }
+      corners.push(verticalFirst ? { x: a.x, y: b.y } : { x: b.x, y: a.y })
+    }
+    corners.push(b)
+  }
+  return corners
+}
+
+// Which neighbours a box-drawing cell connects to
+const BOX_UP = 1
+const BOX_RIGHT = 2
+const BOX_DOWN = 4
+const BOX_LEFT = 8
+
+// Glyphs of each stroke style indexed by connection bits. Double lines have no half-line caps.
+const STROKE_GLYPHS: Record<StrokeStyle, string[]> = {
+  light: [" ", "╵", "╶", "└", "╷", "│", "┌", "├", "╴", "┘", "─", "┴", "┐", "┤", "┬", "┼"],
+  heavy: [" ", "╹", "╺", "┗", "╻", "┃", "┏", "┣", "╸", "┛", "━", "┻", "┓", "┫", "┳", "╋"],
+  double: [" ", "║", "═", "╚", "║", "║", "╔", "╠", "═", "╝", "═", "╩", "╗", "╣", "╦", "╬"],
+  dashed: [" ", "╵", "╶", "└", "╷", "╎", "┌", "├", "╴", "┘", "╌", "┴", "┐", "┤", "┬", "┼"],
+  rounded: [" ", "╵", "╶", "╰", "╷", "│", "╭", "├", "╴", "╯", "─", "┴", "╮", "┤", "┬", "┼"],
+  ascii: [" ", "|", "-", "+", "|", "|", "+", "+", "-", "+", "-", "+", "+", "+", "+", "+"],
+}
+
+// Junctions of a heavy or double stroke with a light one, indexed by connection bits and keyed by
+// the weight of the horizontal arms, then of the vertical arms
+const MIXED_STROKE_GLYPHS: Record<string, string[]> = {
+  "heavy/light": [" ", "╵", "╺", "┕", "╷", "│", "┍", "┝", "╸", "┙", "━", "┷", "┑", "┥", "┯", "┿"],
+  "light/heavy": [" ", "╹", "╶", "┖", "╻", "┃", "┎", "┠", "╴", "┚", "─", "┸", "┒", "┨", "┰", "╂"],
+  "double/light": [" ", "╵", "═", "╘", "╷", "│", "╒", "╞", "═", "╛", "═", "╧", "╕", "╡", "╤", "╪"],
+  "light/double": [" ", "║", "╶", "╙", "║", "║", "╓", "╟", "╴", "╜", "─", "╨", "╖", "╢", "╥", "╫"],
+}
+
+// Dashed and rounded strokes meet others like light ones
+const STROKE_WEIGHTS: Record<StrokeStyle, StrokeStyle> = {
+  light: "light", heavy: "heavy", double: "double", dashed: "light", rounded: "light", ascii: "ascii",
+}
+
+function isSingleArm(bits: number): boolean {
+  return bits === BOX_UP || bits === BOX_RIGHT || bits === BOX_DOWN || bits === BOX_LEFT
+}
+
+function getOppositeArm(bit: number): number {
+  return ((bit << 2) | (bit >> 2)) & 15
+}
+
+// Add arms to a stroke cell; arms in a new direction take the new style. A free line end stays
+// free as long as no new arm joins it, e.g. where two edges leave a node from the same cell.
+function mergeStroke(stroke: StrokeCell, bits: number, style: StrokeStyle): StrokeCell {
+  const horizontal = BOX_LEFT | BOX_RIGHT
+  const vertical = BOX_UP | BOX_DOWN
+  return {
+    bits: stroke.bits | bits,
+    hStyle: bits & horizontal && !(stroke.bits & horizontal) ? style : stroke.hStyle,
+    vStyle: bits & vertical && !(stroke.bits & vertical) ? style : stroke.vStyle,
+    open: (stroke.bits | bits) === stroke.bits ? stroke.open : 0,
+  }
+}
+
+function getStrokeGlyph({ bits, hStyle, vStyle }: StrokeCell): string {
+  if (hStyle === vStyle || !(bits & (BOX_UP | BOX_DOWN))) return STROKE_GLYPHS[hStyle][bits]!
+  if (!(bits & (BOX_LEFT | BOX_RIGHT))) return STROKE_GLYPHS[vStyle][bits]!
+
+  const h = STROKE_WEIGHTS[hStyle]
+  const v = STROKE_WEIGHTS[vStyle]
+  if (h === "ascii" || v === "ascii") return STROKE_GLYPHS.ascii[bits]!
+  if (h === v) return STROKE_GLYPHS[h][bits]!
+  // Heavy and double strokes have no glyphs in common
+  return MIXED_STROKE_GLYPHS[`${h}/${v}`]?.[bits] ?? STROKE_GLYPHS[hStyle][bits]!
+}
+
+// Cells of an elbow line in drawing order, each with the neighbours it connects to
+function getElbowCells(line: Line): { x: number; y: number; bits: number }[] {
+  const cells = new Map<string, { x: number; y: number; bits: number }>()
+  const visit = (x: number, y: number, bits: number) => {
+    const key = `${x},${y}`
+    const cell = cells.get(key)
+    if (cell) cell.bits |= bits
+    else cells.set(key, { x, y, bits })
+  }
+
+  const corners = getElbowCorners(line)
+  visit(corners[0]!.x, corners[0]!.y, 0)
+  for (let i = 1; i < corners.length; i++) {
+    const a = corners[i - 1]!
+    const b = corners[i]!
+    const dx = Math.sign(b.x - a.x)
+    const dy = Math.sign(b.y - a.y)
+    const forward = dx > 0 ? BOX_RIGHT : dx < 0 ? BOX_LEFT : dy > 0 ? BOX_DOWN : BOX_UP
+    const backward = dx > 0 ? BOX_LEFT : dx < 0 ? BOX_RIGHT : dy > 0 ? BOX_UP : BOX_DOWN
+    for (let x = a.x, y = a.y; x !== b.x || y !== b.y;) {
+      visit(x, y, forward)
+      x += dx
+      y += dy
+      visit(x, y, backward)
+    }
+  }
+  return [...cells.values()]
+}
+
+// Every cell a line passes through
+function getLineCells(line: Line): { x: number; y: number }[] {
+  if (line.elbow) return getElbowCells(line).map(({ x, y }) => ({ x, y }))
+  return getLinePoints(line.x1, line.y1, line.x2, line.y2)
+}
+
+function getLinePoints(x1: number, y1: number, x2: number, y2: number): { x: number; y: number }[] {
+  // Bresenham's line algorithm
+  const points: { x: number; y: number }[] = []
+  const dx = Math.abs(x2 - x1)
+  const dy = Math.abs(y2 - y1)
+  const sx = x1 < x2 ? 1 : -1
+  const sy = y1 < y2 ? 1 : -1
+  let err = dx - dy
+  let x = x1
+  let y = y1
+
+  while (true) {
+    points.push({ x, y })
+    if (x === x2 && y === y2) break
+    const e2 = 2 * err
+    if (e2 > -dy) {
+      err -= dy
+      x += sx
+    }
+    if (e2 < dx) {
+      err += dx
+      y += sy
+    }
+  }
+  return points
+}
+
+function getFreehandBounds(freehand: Freehand): Bounds {
+  if (freehand.points.length === 0) {
+    return { x1: 0, y1: 0, x2: 0, y2: 0 }
+  }
+  let minX = freehand.points[0]!.x
+  let maxX = freehand.points[0]!.x
+  let minY = freehand.points[0]!.y
+  let maxY = freehand.points[0]!.y
+  for (const p of freehand.points) {
+    if (p.x < minX) minX = p.x
+    if (p.x > maxX) maxX = p.x
+    if (p.y < minY) minY = p.y
+    if (p.y > maxY) maxY = p.y
+  }
+  return { x1: minX, y1: minY, x2: maxX, y2: maxY }
+}
+
+function getTextBoxBounds(box: TextBox): Bounds {
+  const width = Math.max(1, box.chars.length)
+  return { x1: box.x, y1: box.y, x2: box.x + width - 1, y2: box.y }
+}
+
+// Bounding box of each object in the scene
+function getSceneObjectBounds(scene: Scene): Bounds[] {
+  return [
+    ...scene.textBoxes.map(getTextBoxBounds),
+    ...scene.rectangles.map(normalizeRect),
+    ...scene.lines.map(normalizeLine),
+    ...scene.freehands.filter(f => f.points.length > 0).map(getFreehandBounds),
+  ]
+}
+
+function unionBounds(all: Bounds[]): Bounds | null {
+  if (all.length === 0) return null
+
+  return {
+    x1: Math.min(...all.map(b => b.x1)),
+    y1: Math.min(...all.map(b => b.y1)),
+    x2: Math.max(...all.map(b => b.x2)),
+    y2: Math.max(...all.map(b => b.y2)),
+  }
+}
+
+// The scene without its hidden objects
+function getVisibleScene(scene: Scene): Scene {
+  return {
+    textBoxes: scene.textBoxes.filter(b => !b.hidden),
+    rectangles: scene.rectangles.filter(r => !r.hidden),
+    lines: scene.lines.filter(l => !l.hidden),
+    freehands: scene.freehands.filter(f => !f.hidden),
+  }
+}
+
+// Bounding box of every object in the scene, or null if the scene is empty
+function getSceneBounds(scene: Scene): Bounds | null {
+  return unionBounds(getSceneObjectBounds(scene))
+}
+
+// Cell just outside a rectangle's border where a connector end attaches. Ends bound to a
+// side line up with the area `toward` (the other end) where the two overlap, and otherwise
+// stop at the side's end closest to it.
+function getBindingPosition(rect: Rectangle, point: BindingPoint, toward: Bounds): { x: number; y: number } {
+  const { x1, y1, x2, y2 } = normalizeRect(rect)
+  const slide = (low: number, high: number, towardLow: number, towardHigh: number) => {
+    // Corners are left to the fixed points
+    const from = low + 1
+    const to = high - 1
+    if (from > to) return Math.floor((low + high) / 2)
+    const overlapLow = Math.max(from, towardLow)
+    const overlapHigh = Math.min(to, towardHigh)
+    if (overlapLow <= overlapHigh) return Math.floor((overlapLow + overlapHigh) / 2)
+    return towardHigh < from ? from : to
+  }
+  const midX = Math.floor((x1 + x2) / 2)
+  const midY = Math.floor((y1 + y2) / 2)
+
+  switch (point) {
+    case "top": return { x: slide(x1, x2, toward.x1, toward.x2), y: y1 - 1 }
+    case "bottom": return { x: slide(x1, x2, toward.x1, toward.x2), y: y2 + 1 }
+    case "left": return { x: x1 - 1, y: slide(y1, y2, toward.y1, toward.y2) }
+    case "right": return { x: x2 + 1, y: slide(y1, y2, toward.y1, toward.y2) }
+    case "n": return { x: midX, y: y1 - 1 }
+    case "s": return { x: midX, y: y2 + 1 }
+    case "w": return { x: x1 - 1, y: midY }
+    case "e": return { x: x2 + 1, y: midY }
+    case "nw": return { x: x1 - 1, y: y1 - 1 }
+    case "ne": return { x: x2 + 1, y: y1 - 1 }
+    case "sw": return { x: x1 - 1, y: y2 + 1 }
+    case "se": return { x: x2 + 1, y: y2 + 1 }
+  }
+}
+
+// Which binding a point on a rectangle's border makes: corners and side middles are fixed
+// points, anywhere else binds to the side
+function getBindingPointAt(rect: Rectangle, x: number, y: number): BindingPoint {
+  const { x1, y1, x2, y2 } = normalizeRect(rect)
+  const vertical = y === y1 ? "n" : y === y2 ? "s" : null
+  const horizontal = x === x1 ? "w" : x === x2 ? "e" : null
+  if (vertical && horizontal) return `${vertical}${horizontal}`
+  if (vertical) return x === Math.floor((x1 + x2) / 2) ? vertical : vertical === "n" ? "top" : "bottom"
+  return y === Math.floor((y1 + y2) / 2) ? horizontal! : horizontal === "w" ? "left" : "right"
+}
+
+// Move the bound ends of every connector to their rectangles. Bindings to rectangles that no
+// longer exist are dropped, leaving the end where it is.
+function routeConnectors(lines: Line[], rectangles: Rectangle[]): void {
+  const rectsById = new Map(rectangles.map(r => [r.id, r]))
+  for (const line of lines) {
+    const startRect = line.startBinding ? rectsById.get(line.startBinding.rectId) : undefined
+    const endRect = line.endBinding ? rectsById.get(line.endBinding.rectId) : undefined
+    if (!startRect) line.startBinding = null
+    if (!endRect) line.endBinding = null
+
+    // Each end aims at the nearest waypoint, else at the other end's rectangle, or at the other
+    // end itself if it's free
+    const pointArea = (p: { x: number; y: number }) => ({ x1: p.x, y1: p.y, x2: p.x, y2: p.y })
+    const firstWaypoint = line.waypoints[0]
+    const lastWaypoint = line.waypoints[line.waypoints.length - 1]
+    const startArea = lastWaypoint ? pointArea(lastWaypoint)
+      : startRect ? normalizeRect(startRect) : pointArea({ x: line.x1, y: line.y1 })
+    const endArea = firstWaypoint ? pointArea(firstWaypoint)
+      : endRect ? normalizeRect(endRect) : pointArea({ x: line.x2, y: line.y2 })
+    if (startRect && line.startBinding) {
+      const start = getBindingPosition(startRect, line.startBinding.point, endArea)
+      line.x1 = start.x
+      line.y1 = start.y
+    }
+    if (endRect && line.endBinding) {
+      const end = getBindingPosition(endRect, line.endBinding.point, startArea)
+      line.x2 = end.x
+      line.y2 = end.y
+    }
+  }
+}
+
+// Diagonal lines have no box-drawing junctions, just slashes
+function getDiagonalLineChar(dx: number, dy: number, style: StrokeStyle): string {
+  if ((dx > 0) === (dy > 0)) {
+    // Going down-right or up-left: use backslash-like
+    return style === "ascii" ? "\\" : "╲"
+  }
+  // Going down-left or up-right: use forward slash-like
+  return style === "ascii" ? "/" : "╱"
+}
+
+// Glyph for a marker at a line end pointing in direction (dx, dy), or null to keep the line's own
+function getMarkerChar(marker: LineMarker, dx: number, dy: number): string | null {
+  switch (marker) {
+    case "none":
+    case "full":
+      return null
+    case "circle": return "●"
+    case "diamond": return "◆"
+    case "arrow":
+      if (dy === 0) return dx < 0 ? "◀" : "▶"
+      if (dx === 0) return dy > 0 ? "▼" : "▲"
+      if (dy > 0) return dx > 0 ? "◢" : "◣"
+      return dx > 0 ? "◥" : "◤"
+    case "ascii":
+      // No diagonal arrows in ASCII: point along the main direction
+      if (Math.abs(dx) >= Math.abs(dy)) return dx < 0 ? "<" : ">"
+      return dy > 0 ? "v" : "^"
+  }
+}
+
+function getFreehandChar(points: { x: number; y: number }[], index: number): string {
+  if (points.length <= 1) return "•"
+
+  const curr = points[index]!
+  const prev = index > 0 ? points[index - 1] : null
+  const next = index < points.length - 1 ? points[index + 1] : null
+
+  // Determine direction from neighbors
+  let dx = 0, dy = 0
+  if (prev && next) {
+    dx = next.x - prev.x
+    dy = next.y - prev.y
+  } else if (next) {
+    dx = next.x - curr.x
+    dy = next.y - curr.y
+  } else if (prev) {
+    dx = curr.x - prev.x
+    dy = curr.y - prev.y
+  }
+
+  // Choose character based on direction
+  if (dx === 0 && dy === 0) return "•"
+  if (Math.abs(dx) > Math.abs(dy)) {
+    // Horizontal dominant
+    return "─"
+  } else if (Math.abs(dy) > Math.abs(dx)) {
+    // Vertical dominant
+    return "│"
+  } else {
+    // Diagonal
+    if ((dx > 0 && dy > 0) || (dx < 0 && dy < 0)) {
+      return "╲"
+    } else {
+      return "╱"
+    }
+  }
+}
+
+// ==================== Rasterizer ====================
+
+// Headless character grid covering a window of canvas coordinates.
+// The editor blits it into the terminal buffer; exporters serialize it.
+class Raster {
+  readonly x: number
+  readonly y: number
+  readonly width: number
+  readonly height: number
+  private cells: RasterCell[]
+
+  constructor(x: number, y: number, width: number, height: number) {
+    this.x = x
+    this.y = y
+    this.width = Math.max(0, width)
+    this.height = Math.max(0, height)
+    this.cells = Array.from({ length: this.width * this.height }, () => ({ char: " ", fg: null, bg: null, bold: false, stroke: null }))
+  }
+
+  contains(x: number, y: number): boolean {
+    return x >= this.x && x < this.x + this.width && y >= this.y && y < this.y + this.height
+  }
+
+  get(x: number, y: number): RasterCell | null {
+    if (!this.contains(x, y)) return null
+    return this.cells[(y - this.y) * this.width + (x - this.x)]!
+  }
+
+  set(x: number, y: number, char: string, fg: EntityColor, bg: EntityColor, bold: boolean): void {
+    const cell = this.get(x, y)
+    if (!cell) return
+    cell.char = char
+    cell.fg = fg
+    cell.bg = bg
+    cell.bold = bold
+    cell.stroke = null
+  }
+
+  // Draw box-drawing arms, joined with the strokes already in the cell
+  setStroke(x: number, y: number, bits: number, style: StrokeStyle, fg: EntityColor, bg: EntityColor, bold: boolean, open = 0): void {
+    const cell = this.get(x, y)
+    if (!cell) return
+    const stroke = cell.stroke ? mergeStroke(cell.stroke, bits, style) : { bits, hStyle: style, vStyle: style, open }
+    this.set(x, y, getStrokeGlyph(stroke), fg, bg, bold)
+    cell.stroke = stroke
+  }
+
+  // Copy of a window of this raster
+  crop(x: number, y: number, width: number, height: number): Raster {
+    const raster = new Raster(x, y, width, height)
+    raster.cells = raster.cells.map((cell, i) => {
+      const source = this.get(x + (i % raster.width), y + Math.floor(i / raster.width))
+      return source ? { ...source } : cell
+    })
+    return raster
+  }
+
+  // Background already painted at a position, used for transparent fills
+  getBg(x: number, y: number): EntityColor {
+    return this.get(x, y)?.bg ?? null
+  }
+}
+
+function colorsEqual(a: EntityColor, b: EntityColor): boolean {
+  if (a === null || b === null) return a === b
+  return a.r === b.r && a.g === b.g && a.b === b.b && a.a === b.a
+}
+
+function drawTextBox(raster: Raster, box: TextBox): void {
+  for (let i = 0; i < box.chars.length; i++) {
+    const x = box.x + i
+    const charInfo = box.chars[i]!
+    // Transparent fill - keep whatever is already painted underneath
+    const bg = box.fillColor ?? raster.getBg(x, box.y)
+    // Use per-character color if set, otherwise fall back to box strokeColor
+    const fg = charInfo.color ?? box.strokeColor
+    raster.set(x, box.y, charInfo.char, fg, bg, charInfo.bold)
+  }
+}
+
+function drawRectangle(raster: Raster, rect: Rectangle): void {
+  const { x1, y1, x2, y2 } = normalizeRect(rect)
+  const hasStroke = rect.strokeColor !== null
+
+  // Render fill area (interior of rectangle, or full area if no stroke)
+  if (rect.fillColor) {
+    const fillX1 = hasStroke ? x1 + 1 : x1
+    const fillY1 = hasStroke ? y1 + 1 : y1
+    const fillX2 = hasStroke ? x2 - 1 : x2
+    const fillY2 = hasStroke ? y2 - 1 : y2
+
+    for (let y = fillY1; y <= fillY2; y++) {
+      for (let x = fillX1; x <= fillX2; x++) {
+        raster.set(x, y, " ", null, rect.fillColor, false)
+      }
+    }
+  }
+
+  // Render border only if stroke color is not transparent
+  if (!hasStroke) return
+
+  for (let y = y1; y <= y2; y++) {
+    for (let x = x1; x <= x2; x++) {
+      let bits = 0
+      if (y === y1 && x === x1) bits = BOX_RIGHT | BOX_DOWN
+      else if (y === y1 && x === x2) bits = BOX_LEFT | BOX_DOWN
+      else if (y === y2 && x === x1) bits = BOX_RIGHT | BOX_UP
+      else if (y === y2 && x === x2) bits = BOX_LEFT | BOX_UP
+      else if (y === y1 || y === y2) bits = BOX_LEFT | BOX_RIGHT
+      else if (x === x1 || x === x2) bits = BOX_UP | BOX_DOWN
+
+      if (bits) {
+        raster.setStroke(x, y, bits, rect.strokeStyle, rect.strokeColor, null, rect.bold)
+      }
+    }
+  }
+}
+
+function drawLine(raster: Raster, line: Line): void {
+  // Horizontal and vertical lines are drawn like elbow lines with a single segment
+  if (line.elbow || line.x1 === line.x2 || line.y1 === line.y2) {
+    drawOrthogonalLine(raster, line)
+    return
+  }
+  const points = getLinePoints(line.x1, line.y1, line.x2, line.y2)
+  const dx = line.x2 - line.x1
+  const dy = line.y2 - line.y1
+  for (let i = 0; i < points.length; i++) {
+    const { x, y } = points[i]!
+    const marker = i === points.length - 1 ? getMarkerChar(line.endMarker, dx, dy)
+      : i === 0 ? getMarkerChar(line.startMarker, -dx, -dy)
+      : null
+    // Lines always preserve the existing background color
+    raster.set(x, y, marker ?? getDiagonalLineChar(dx, dy, line.strokeStyle), line.strokeColor, raster.getBg(x, y), line.bold)
+  }
+}
+
+function drawOrthogonalLine(raster: Raster, line: Line): void {
+  const cells = getElbowCells(line)
+  // Markers point the way of the first and last segments
+  const corners = getElbowCorners(line).filter((p, i, all) => i === 0 || p.x !== all[i - 1]!.x || p.y !== all[i - 1]!.y)
+  const first = corners[0]!
+  const second = corners[1] ?? first
+  const last = corners[corners.length - 1]!
+  const beforeLast = corners[corners.length - 2] ?? last
+  for (let i = 0; i < cells.length; i++) {
+    const { x, y, bits } = cells[i]!
+    const isStart = x === first.x && y === first.y
+    const isEnd = x === last.x && y === last.y
+    // The end marker wins on a single-cell line
+    const marker = isEnd ? getMarkerChar(line.endMarker, Math.sign(last.x - beforeLast.x), Math.sign(last.y - beforeLast.y))
+      : isStart ? getMarkerChar(line.startMarker, Math.sign(first.x - second.x), Math.sign(first.y - second.y))
+      : null
+    if (marker) {
+      raster.set(x, y, marker, line.strokeColor, raster.getBg(x, y), line.bold)
+    } else {
+      // A full end also gets the arm opposite its only one; a plain one is free and can join up
+      // with a stroke right in front of it
+      const full = cells.length > 1 && ((isEnd && line.endMarker === "full") || (isStart && line.startMarker === "full"))
+      const armBits = full ? bits | getOppositeArm(bits) : bits
+      const open = (isStart || isEnd) && isSingleArm(armBits) ? getOppositeArm(armBits) : 0
+      raster.setStroke(x, y, armBits, line.strokeStyle, line.strokeColor, raster.getBg(x, y), line.bold, open)
+    }
+  }
+}
+
+function drawFreehand(raster: Raster, freehand: Freehand): void {
+  for (let i = 0; i < freehand.points.length; i++) {
+    const { x, y } = freehand.points[i]!
+    const char = getFreehandChar(freehand.points, i)
+    raster.set(x, y, char, freehand.strokeColor, raster.getBg(x, y), freehand.bold)
+  }
+}
+
+// Every object of the scene, bottom layer first
+function getSceneItems(scene: Scene): SceneItem[] {
+  const items: SceneItem[] = [
+    ...scene.textBoxes.map(obj => ({ type: "text" as const, obj })),
+    ...scene.rectangles.map(obj => ({ type: "rect" as const, obj })),
+    ...scene.lines.map(obj => ({ type: "line" as const, obj })),
+    ...scene.freehands.map(obj => ({ type: "freehand" as const, obj })),
+  ]
+  return items.sort((a, b) => a.obj.zIndex - b.obj.zIndex)
+}
+
+// Line ends pointing straight at a stroke in the next cell connect to it, e.g. `│╶──` becomes `├──`
+function joinStrokeEnds(raster: Raster): void {
+  for (let y = raster.y; y < raster.y + raster.height; y++) {
+    for (let x = raster.x; x < raster.x + raster.width; x++) {
+      const cell = raster.get(x, y)!
+      const open = cell.stroke?.open
+      if (!open) continue
+
+      const nextX = x + (open === BOX_RIGHT ? 1 : open === BOX_LEFT ? -1 : 0)
+      const nextY = y + (open === BOX_DOWN ? 1 : open === BOX_UP ? -1 : 0)
+      const next = raster.get(nextX, nextY)
+      if (!next?.stroke) continue
+
+      const style = open & (BOX_LEFT | BOX_RIGHT) ? cell.stroke!.hStyle : cell.stroke!.vStyle
+      cell.stroke = mergeStroke(cell.stroke!, open, style)
+      cell.char = getStrokeGlyph(cell.stroke)
+      next.stroke = mergeStroke(next.stroke, getOppositeArm(open), style)
+      next.char = getStrokeGlyph(next.stroke)
+    }
+  }
+}
+
+// Compose every visible object of the scene in zIndex order into a raster window
+function rasterizeScene(scene: Scene, x: number, y: number, width: number, height: number): Raster {
+  // One extra cell all around so strokes join up with ones just outside the window
+  const raster = new Raster(x - 1, y - 1, width + 2, height + 2)
+
+  // Higher zIndex renders on top
+  for (const item of getSceneItems(getVisibleScene(scene))) {
+    if (item.type === "text") drawTextBox(raster, item.obj)
+    else if (item.type === "rect") drawRectangle(raster, item.obj)
+    else if (item.type === "line") drawLine(raster, item.obj)
+    else if (item.type === "freehand") drawFreehand(raster, item.obj)
+  }
+  joinStrokeEnds(raster)
+
+  return raster.crop(x, y, width, height)
+}
+
+// Rasterize the whole scene, cropped to its bounding box and, if given, to the page
+function rasterizeSceneBounds(scene: Scene, page: PageSize | null = null): Raster {
+  let bounds = getSceneBounds(getVisibleScene(scene))
+  if (bounds && page) {
+    bounds = {
+      x1: Math.max(bounds.x1, 0),
+      y1: Math.max(bounds.y1, 0),
+      x2: Math.min(bounds.x2, page.width - 1),
+      y2: Math.min(bounds.y2, page.height - 1),
+    }
+  }
+  if (!bounds || bounds.x1 > bounds.x2 || bounds.y1 > bounds.y2) return new Raster(0, 0, 0, 0)
+  return rasterizeScene(scene, bounds.x1, bounds.y1, bounds.x2 - bounds.x1 + 1, bounds.y2 - bounds.y1 + 1)
+}
+
+// ==================== Export ====================
+
+// Plain UTF-8 text, trimmed to the cells that actually contain glyphs
+function rasterToText(raster: Raster): string {
+  const rows: string[] = []
+  for (let y = raster.y; y < raster.y + raster.height; y++) {
+    let row = ""
+    for (let x = raster.x; x < raster.x + raster.width; x++) {
+      row += raster.get(x, y)!.char
+    }
+    rows.push(row.trimEnd())
+  }
+
+  // Drop blank rows at the top and bottom, then the common left margin
+  while (rows.length > 0 && rows[0] === "") rows.shift()
+  while (rows.length > 0 && rows[rows.length - 1] === "") rows.pop()
+  const margin = Math.min(...rows.filter(r => r !== "").map(r => r.length - r.trimStart().length))
+  const lines = rows.map(r => r.slice(Number.isFinite(margin) ? margin : 0))
+
+  return lines.length > 0 ? lines.join("\n") + "\n" : ""
+}
+
+function exportSceneAsText(scene: Scene, page: PageSize | null = null): string {
+  return rasterToText(rasterizeSceneBounds(scene, page))
+}
+
+// Terminal color support for ANSI output
+type ColorDepth = "truecolor" | "256"
+
+// Map a color onto the 6x6x6 cube or grayscale ramp of the xterm 256-color palette
+function rgbTo256(r: number, g: number, b: number): number {
+  if (r === g && g === b) {
+    if (r < 8) return 16
+    if (r > 248) return 231
+    return Math.round(((r - 8) / 247) * 24) + 232
+  }
+  const to6 = (v: number) => Math.round((v / 255) * 5)
+  return 16 + 36 * to6(r) + 6 * to6(g) + to6(b)
+}
+
+function ansiColor(color: RGBA, layer: 38 | 48, colorDepth: ColorDepth): string {
+  const [r, g, b] = color.toInts()
+  if (colorDepth === "truecolor") return `;${layer};2;${r};${g};${b}`
+  return `;${layer};5;${rgbTo256(r, g, b)}`
+}
+
+// SGR parameters for a cell; transparent colors use the terminal defaults
+function ansiStyle(cell: RasterCell, colorDepth: ColorDepth): string {
+  let style = cell.bold ? ";1" : ""
+  if (cell.fg) style += ansiColor(cell.fg, 38, colorDepth)
+  if (cell.bg) style += ansiColor(cell.bg, 48, colorDepth)
+  return style
+}
+
+function isBlankCell(cell: RasterCell): boolean {
+  return cell.char === " " && cell.bg === null
+}
+
+// Escape-sequence output that reproduces colors and bold when printed to a terminal
+function rasterToAnsi(raster: Raster, colorDepth: ColorDepth): string {
+  const rows: string[] = []
+  for (let y = raster.y; y < raster.y + raster.height; y++) {
+    // Unpainted cells at the end of a row are dropped, like the text export
+    let end = raster.x + raster.width
+    while (end > raster.x && isBlankCell(raster.get(end - 1, y)!)) end--
+
+    let row = ""
+    let current = ""
+    for (let x = raster.x; x < end; x++) {
+      const cell = raster.get(x, y)!
+      const style = ansiStyle(cell, colorDepth)
+      if (style !== current) {
+        row += `\x1b[0${style}m`
+        current = style
+      }
+      row += cell.char
+    }
+    if (current !== "") row += "\x1b[0m"
+    rows.push(row)
+  }
+
+  while (rows.length > 0 && rows[0] === "") rows.shift()
+  while (rows.length > 0 && rows[rows.length - 1] === "") rows.pop()
+  return rows.length > 0 ? rows.join("\n") + "\n" : ""
+}
+
+// Monospace cell metrics for SVG output, in pixels
+const SVG_CELL_WIDTH = 10
+const SVG_CELL_HEIGHT = 20
+const SVG_FONT_SIZE = 16
+const SVG_BASELINE = 15
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+function colorToHex(color: RGBA): string {
+  return "#" + color.toInts().slice(0, 3).map(v => v.toString(16).padStart(2, "0")).join("")
+}
+
+// fill attribute (plus opacity for translucent colors); null follows the embedding page
+function svgFill(color: EntityColor): string {
+  if (color === null) return `fill="currentColor"`
+  const opacity = color.a < 1 ? ` fill-opacity="${Number(color.a.toFixed(3))}"` : ""
+  return `fill="${colorToHex(color)}"${opacity}`
+}
+
+// Every cell sits on a fixed monospace grid: fills become rects, glyphs become
+// positioned text runs. Transparent backgrounds are left out entirely.
+function rasterToSvg(raster: Raster): string {
+  const width = raster.width * SVG_CELL_WIDTH
+  const height = raster.height * SVG_CELL_HEIGHT
+  const fills: string[] = []
+  const glyphs: string[] = []
+
+  for (let row = 0; row < raster.height; row++) {
+    const y = raster.y + row
+
+    // Merge horizontal runs of the same background into one rect
+    let col = 0
+    while (col < raster.width) {
+      const bg = raster.get(raster.x + col, y)!.bg
+      let end = col + 1
+      while (end < raster.width && colorsEqual(raster.get(raster.x + end, y)!.bg, bg)) end++
+      if (bg !== null) {
+        fills.push(`<rect x="${col * SVG_CELL_WIDTH}" y="${row * SVG_CELL_HEIGHT}" width="${(end - col) * SVG_CELL_WIDTH}" height="${SVG_CELL_HEIGHT}" ${svgFill(bg)}/>`)
+      }
+      col = end
+    }
+
+    // Group consecutive glyphs with the same color and weight into one text element
+    col = 0
+    while (col < raster.width) {
+      const cell = raster.get(raster.x + col, y)!
+      if (cell.char === " ") {
+        col++
+        continue
+      }
+      const xs: number[] = []
+      let text = ""
+      let end = col
+      while (end < raster.width) {
+        const next = raster.get(raster.x + end, y)!
+        if (next.char === " " || !colorsEqual(next.fg, cell.fg) || next.bold !== cell.bold) break
+        xs.push(end * SVG_CELL_WIDTH)
+        text += next.char
+        end++
+      }
+      const weight = cell.bold ? ` font-weight="bold"` : ""
+      glyphs.push(`<text x="${xs.join(" ")}" y="${row * SVG_CELL_HEIGHT + SVG_BASELINE}" ${svgFill(cell.fg)}${weight}>${escapeXml(text)}</text>`)
+      col = end
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Menlo, Consolas, 'DejaVu Sans Mono', monospace" font-size="${SVG_FONT_SIZE}" xml:space="preserve">`,
+    ...fills.map(f => `  ${f}`),
+    ...glyphs.map(g => `  ${g}`),
+    `</svg>`,
+    "",
+  ].join("\n")
+}
+
+// CSS for one color run; transparent colors inherit the page defaults like the canvas does
+function htmlRunStyle(cell: RasterCell): string {
+  const styles: string[] = []
+  if (cell.fg) styles.push(`color:${colorToHex(cell.fg)}`)
+  if (cell.bg) styles.push(`background:${colorToHex(cell.bg)}`)
+  if (cell.bold) styles.push("font-weight:bold")
+  return styles.join(";")
+}
+
+// Single self-contained page: a <pre> of inline-styled spans on the canvas background
+function rasterToHtml(raster: Raster): string {
+  const rows: string[] = []
+  for (let y = raster.y; y < raster.y + raster.height; y++) {
+    let end = raster.x + raster.width
+    while (end > raster.x && isBlankCell(raster.get(end - 1, y)!)) end--
+
+    let row = ""
+    let x = raster.x
+    while (x < end) {
+      const style = htmlRunStyle(raster.get(x, y)!)
+      let text = ""
+      while (x < end && htmlRunStyle(raster.get(x, y)!) === style) {
+        text += raster.get(x, y)!.char
+        x++
+      }
+      row += style ? `<span style="${style}">${escapeXml(text)}</span>` : escapeXml(text)
+    }
+    rows.push(row)
+  }
+
+  const bg = colorToHex(CANVAS_BG_COLOR)
+  const fg = colorToHex(DEFAULT_TEXT_COLOR)
+  return [
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    `<meta charset="utf-8">`,
+    "<title>tigma</title>",
+    "</head>",
+    `<body style="margin:0;background:${bg}">`,
+    `<pre style="margin:0;padding:1em;background:${bg};color:${fg};font-family:Menlo,Consolas,'DejaVu Sans Mono',monospace;line-height:1.2">${rows.join("\n")}</pre>`,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n")
+}
+
+interface ExportOptions {
+  colorDepth: ColorDepth
+  page: PageSize | null  // anything outside the page is left out
+}
+
+// Prefer truecolor only when the terminal advertises it
+function detectColorDepth(): ColorDepth {
+  const colorTerm = process.env.COLORTERM
+  return colorTerm === "truecolor" || colorTerm === "24bit" ? "truecolor" : "256"
+}
+
+type ExportFormat = "txt" | "ansi" | "svg" | "html"
+
+const EXPORT_FORMATS: Record<ExportFormat, (scene: Scene, options: ExportOptions) => string> = {
+  txt: (scene, options) => exportSceneAsText(scene, options.page),
+  ansi: (scene, options) => rasterToAnsi(rasterizeSceneBounds(scene, options.page), options.colorDepth),
+  svg: (scene, options) => rasterToSvg(rasterizeSceneBounds(scene, options.page)),
+  html: (scene, options) => rasterToHtml(rasterizeSceneBounds(scene, options.page)),
 }
 
-const TOOLS: Record<Tool, ToolInfo> = {
-  move: { name: "Move", key: "M" },
-  text: { name: "Text", key: "T" },
-  rectangle: { name: "Rectangle", key: "R" },
-  line: { name: "Line", key: "L" },
-  freehand: { name: "Pencil", key: "P" }
+const EXPORT_EXTENSIONS: Record<string, ExportFormat> = {
+  ".txt": "txt",
+  ".ans": "ansi",
+  ".ansi": "ansi",
+  ".svg": "svg",
+  ".html": "html",
+  ".htm": "html",
 }
 
-type ResizeHandle = "nw" | "n" | "ne" | "e" | "se" | "s" | "sw" | "w" | null
+// Pick an export format from a file name, defaulting to plain text
+function getExportFormatForPath(filePath: string): ExportFormat {
+  return EXPORT_EXTENSIONS[path.extname(filePath).toLowerCase()] ?? "txt"
+}
 
-interface HistorySnapshot {
-  textBoxes: TextBox[]
-  rectangles: Rectangle[]
-  lines: Line[]
-  freehands: Freehand[]
-  nextTextBoxId: number
-  nextRectId: number
-  nextLineId: number
-  nextFreehandId: number
-  nextZIndex: number
+function isExportFormat(value: string): value is ExportFormat {
+  return Object.hasOwn(EXPORT_FORMATS, value)
 }
 
-// File format for saving/loading designs
-interface TigmaFile {
-  version: 1
-  textBoxes: SerializedTextBox[]
-  rectangles: SerializedRectangle[]
-  lines: SerializedLine[]
-  freehands?: SerializedFreehand[]  // optional for backward compatibility
-  nextTextBoxId: number
-  nextRectId: number
-  nextLineId: number
-  nextFreehandId?: number  // optional for backward compatibility
-  nextZIndex: number
+// ==================== Import ====================
+
+// Characters recognized as strokes when importing ASCII art
+const ASCII_H_EDGE = "─━═╌┄-="
+const ASCII_V_EDGE = "│┃║╎┆|"
+const ASCII_JUNCTION = "├┤┬┴┼╠╣╦╩╬┣┫┳┻╋+"
+const ASCII_TOP_LEFT = "┌╭╔┏+"
+const ASCII_TOP_RIGHT = "┐╮╗┓+"
+const ASCII_BOTTOM_LEFT = "└╰╚┗+"
+const ASCII_BOTTOM_RIGHT = "┘╯╝┛+"
+const ASCII_H_LINE = ASCII_H_EDGE + "╶╴"
+const ASCII_V_LINE = ASCII_V_EDGE + "╷╵"
+const ASCII_LINE_CAPS = "╶╴╷╵"
+const ASCII_BACKSLASH = "╲\\"
+const ASCII_SLASH = "╱/"
+
+// Stroke style given away by a box's corner or a line's characters (light otherwise)
+const ASCII_STROKE_STYLES: Record<string, StrokeStyle> = {
+  "━": "heavy", "┃": "heavy", "┏": "heavy", "┓": "heavy", "┗": "heavy", "┛": "heavy",
+  "═": "double", "║": "double", "╔": "double", "╗": "double", "╚": "double", "╝": "double",
+  "╌": "dashed", "┄": "dashed", "╎": "dashed", "┆": "dashed",
+  "╭": "rounded", "╮": "rounded", "╰": "rounded", "╯": "rounded",
+  "-": "ascii", "=": "ascii", "|": "ascii", "+": "ascii", "\\": "ascii", "/": "ascii",
 }
 
-// Serialized versions with colors as arrays instead of RGBA objects
-interface SerializedColor {
-  r: number
-  g: number
-  b: number
-  a: number
+// Turn hand-drawn ASCII art into editable objects: boxes become rectangles,
+// straight runs become lines and everything left over is kept as text.
+function importAsciiArt(text: string): TigmaFile {
+  const grid = text
+    .replace(/\t/g, "        ")
+    .split(/\r?\n/)
+    .map(row => Array.from(row))
+  const consumed = grid.map(row => row.map(() => false))
+
+  const charAt = (x: number, y: number) => grid[y]?.[x] ?? " "
+  const isFree = (x: number, y: number) => charAt(x, y) !== " " && !consumed[y]![x]
+  const isIn = (set: string, x: number, y: number) => set.includes(charAt(x, y))
+
+  const stroke = DEFAULT_TEXT_COLOR
+  let zIndex = 1
+  const scene: Scene = { textBoxes: [], rectangles: [], lines: [], freehands: [] }
+
+  // Junctions on box borders, where lines attach
+  const junctions = new Set<string>()
+
+  // Rectangles: find the smallest closed box for every top-left corner
+  const findRect = (x1: number, y1: number): Bounds | null => {
+    for (let x2 = x1 + 1; isIn(ASCII_H_EDGE + ASCII_JUNCTION + ASCII_TOP_RIGHT, x2, y1); x2++) {
+      if (!isIn(ASCII_TOP_RIGHT, x2, y1)) continue
+      for (let y2 = y1 + 1; isIn(ASCII_V_EDGE + ASCII_JUNCTION + ASCII_BOTTOM_LEFT, x1, y2); y2++) {
+        if (!isIn(ASCII_BOTTOM_LEFT, x1, y2) || !isIn(ASCII_BOTTOM_RIGHT, x2, y2)) continue
+        let closed = true
+        for (let x = x1 + 1; x < x2 && closed; x++) {
+          closed = isIn(ASCII_H_EDGE + ASCII_JUNCTION, x, y2)
+        }
+        for (let y = y1 + 1; y < y2 && closed; y++) {
+          closed = isIn(ASCII_V_EDGE + ASCII_JUNCTION, x2, y)
+        }
+        if (closed) return { x1, y1, x2, y2 }
+      }
+    }
+    return null
+  }
+
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid[y]!.length; x++) {
+      if (!isIn(ASCII_TOP_LEFT, x, y)) continue
+      const rect = findRect(x, y)
+      if (!rect) continue
+
+      for (let bx = rect.x1; bx <= rect.x2; bx++) {
+        consumed[rect.y1]![bx] = true
+        consumed[rect.y2]![bx] = true
+      }
+      for (let by = rect.y1; by <= rect.y2; by++) {
+        consumed[by]![rect.x1] = true
+        consumed[by]![rect.x2] = true
+      }
+      for (let bx = rect.x1 + 1; bx < rect.x2; bx++) {
+        if (isIn(ASCII_JUNCTION, bx, rect.y1)) junctions.add(`${bx},${rect.y1}`)
+        if (isIn(ASCII_JUNCTION, bx, rect.y2)) junctions.add(`${bx},${rect.y2}`)
+      }
+      for (let by = rect.y1 + 1; by < rect.y2; by++) {
+        if (isIn(ASCII_JUNCTION, rect.x1, by)) junctions.add(`${rect.x1},${by}`)
+        if (isIn(ASCII_JUNCTION, rect.x2, by)) junctions.add(`${rect.x2},${by}`)
+      }
+      scene.rectangles.push({
+        id: scene.rectangles.length + 1,
+        ...rect,
+        // Light corners may still have dashed edges
+        strokeStyle: ASCII_STROKE_STYLES[charAt(rect.x1, rect.y1)] ?? ASCII_STROKE_STYLES[charAt(rect.x1 + 1, rect.y1)] ?? "light",
+        bold: false,
+        zIndex: zIndex++,
+        hidden: false,
+        locked: false,
+        groups: [],
+        strokeColor: stroke,
+        fillColor: null,
+      })
+    }
+  }
+
+  // Arrowhead or other marker pointing (dx, dy) at a free cell; a letter (`v`) only counts
+  // when it stands apart from other text
+  const markerAt = (x: number, y: number, dx: number, dy: number): LineMarker | null => {
+    if (!isFree(x, y)) return null
+    const isWord = (cx: number, cy: number) => /\w/.test(charAt(cx, cy))
+    if (isWord(x, y) && (isWord(x + dy, y + dx) || isWord(x - dy, y - dx))) return null
+    return LINE_MARKERS.find(marker => getMarkerChar(marker, dx, dy) === charAt(x, y)) ?? null
+  }
+
+  // Lines: straight runs of at least two stroke characters in one direction. Horizontal and
+  // vertical runs reach onto the box junctions they touch, so even a one-cell stub hanging
+  // from a border is kept as a line and its junction is drawn again. Runs also take in the
+  // markers right past their ends; other ends run through their cell unless drawn as caps.
+  const addRun = (x: number, y: number, dx: number, dy: number, set: string) => {
+    let length = 0
+    while (isFree(x + dx * length, y + dy * length) && isIn(set, x + dx * length, y + dy * length)) length++
+    if (length === 0) return
+
+    const orthogonal = dx === 0 || dy === 0
+    const startJunction = orthogonal && junctions.has(`${x - dx},${y - dy}`)
+    const endJunction = orthogonal && junctions.has(`${x + dx * length},${y + dy * length}`)
+    if (length < 2 && !startJunction && !endJunction) return
+
+    const startMarker = startJunction ? null : markerAt(x - dx, y - dy, -dx, -dy)
+    const endMarker = endJunction ? null : markerAt(x + dx * length, y + dy * length, dx, dy)
+    const first = startJunction || startMarker ? -1 : 0
+    const last = endJunction || endMarker ? length : length - 1
+    for (let i = first; i <= last; i++) consumed[y + dy * i]![x + dx * i] = true
+    // Ends on a junction stop halfway, so that they join it
+    const plainEnd = (i: number): LineMarker =>
+      i < 0 || i >= length || isIn(ASCII_LINE_CAPS, x + dx * i, y + dy * i) ? "none" : "full"
+    scene.lines.push({
+      id: scene.lines.length + 1,
+      x1: x + dx * first,
+      y1: y + dy * first,
+      x2: x + dx * last,
+      y2: y + dy * last,
+      elbow: false,
+      waypoints: [],
+      startBinding: null,
+      endBinding: null,
+      startMarker: startMarker ?? plainEnd(first),
+      endMarker: endMarker ?? plainEnd(last),
+      // The second cell, since the first may be a cap
+      strokeStyle: ASCII_STROKE_STYLES[charAt(x + dx * Math.min(1, length - 1), y + dy * Math.min(1, length - 1))] ?? "light",
+      bold: false,
+      zIndex: zIndex++,
+      hidden: false,
+      locked: false,
+      groups: [],
+      strokeColor: stroke,
+      fillColor: null,
+    })
+  }
+
+  for (let y = 0; y < grid.length; y++) {
+    for (let x = 0; x < grid[y]!.length; x++) {
+      addRun(x, y, 1, 0, ASCII_H_LINE)
+      addRun(x, y, 0, 1, ASCII_V_LINE)
+      addRun(x, y, 1, 1, ASCII_BACKSLASH)
+      addRun(x, y, -1, 1, ASCII_SLASH)
+    }
+  }
+
+  // Text: whatever is left, with words separated by single spaces kept together
+  for (let y = 0; y < grid.length; y++) {
+    const row = grid[y]!
+    let x = 0
+    while (x < row.length) {
+      if (!isFree(x, y)) {
+        x++
+        continue
+      }
+      const start = x
+      let end = x
+      while (isFree(end, y) || (charAt(end, y) === " " && isFree(end + 1, y))) end++
+
+      scene.textBoxes.push({
+        id: scene.textBoxes.length + 1,
+        x: start,
+        y,
+        chars: row.slice(start, end).map(char => ({ char, bold: false, color: null })),
+        zIndex: zIndex++,
+        hidden: false,
+        locked: false,
+        groups: [],
+        strokeColor: stroke,
+        fillColor: null,
+      })
+      x = end
+    }
+  }
+
+  return sceneToFileData(scene)
 }
 
-interface SerializedTextChar {
-  char: string
-  bold: boolean
-  color: SerializedColor | null
+// Format-independent graph produced by the diagram parsers
+type GraphDirection = "TB" | "BT" | "LR" | "RL"
+
+interface GraphNode {
+  id: string
+  label: string
 }
 
-interface SerializedTextBox {
-  id: number
-  x: number
-  y: number
-  chars: SerializedTextChar[]
-  zIndex: number
-  strokeColor: SerializedColor | null
-  fillColor: SerializedColor | null
+interface GraphEdge {
+  from: string
+  to: string
+  label: string | null
+  startMarker: LineMarker  // arrowheads and the like on directed edges
+  endMarker: LineMarker
 }
 
-interface SerializedRectangle {
-  id: number
-  x1: number
-  y1: number
-  x2: number
-  y2: number
-  bold: boolean
-  zIndex: number
-  strokeColor: SerializedColor | null
-  fillColor: SerializedColor | null
+interface GraphModel {
+  direction: GraphDirection
+  nodes: GraphNode[]
+  edges: GraphEdge[]
 }
 
-interface SerializedLine {
-  id: number
-  x1: number
-  y1: number
-  x2: number
-  y2: number
-  bold: boolean
-  zIndex: number
-  strokeColor: SerializedColor | null
-  fillColor: SerializedColor | null
+// Spacing between layers (along the flow) and between nodes of one layer
+const GRAPH_RANK_GAP_VERTICAL = 3
+const GRAPH_RANK_GAP_HORIZONTAL = 8
+const GRAPH_ORDER_GAP_VERTICAL = 1
+const GRAPH_ORDER_GAP_HORIZONTAL = 4
+
+// Assign each node a layer: longest path from the sources, with cycles broken by DFS
+function assignGraphLayers(graph: GraphModel): Map<string, number> {
+  const successors = new Map(graph.nodes.map(n => [n.id, [] as string[]]))
+  for (const edge of graph.edges) {
+    if (edge.from !== edge.to) successors.get(edge.from)!.push(edge.to)
+  }
+
+  // Drop back edges so the remaining graph is acyclic
+  const state = new Map<string, "active" | "done">()
+  const forward = new Map(graph.nodes.map(n => [n.id, [] as string[]]))
+  const visit = (id: string) => {
+    state.set(id, "active")
+    for (const next of successors.get(id)!) {
+      if (state.get(next) === "active") continue
+      forward.get(id)!.push(next)
+      if (!state.has(next)) visit(next)
+    }
+    state.set(id, "done")
+  }
+  for (const node of graph.nodes) {
+    if (!state.has(node.id)) visit(node.id)
+  }
+
+  const indegree = new Map(graph.nodes.map(n => [n.id, 0]))
+  for (const targets of forward.values()) {
+    for (const t of targets) indegree.set(t, indegree.get(t)! + 1)
+  }
+
+  const layers = new Map(graph.nodes.map(n => [n.id, 0]))
+  const queue = graph.nodes.filter(n => indegree.get(n.id) === 0).map(n => n.id)
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    for (const next of forward.get(id)!) {
+      layers.set(next, Math.max(layers.get(next)!, layers.get(id)! + 1))
+      indegree.set(next, indegree.get(next)! - 1)
+      if (indegree.get(next) === 0) queue.push(next)
+    }
+  }
+  return layers
 }
 
-interface SerializedFreehand {
-  id: number
-  points: { x: number; y: number }[]
-  bold: boolean
-  zIndex: number
-  strokeColor: SerializedColor | null
+// Part of an edge between two adjacent layers, from the middle of the upper slot (`from`,
+// across the flow) to the middle of the lower one (`to`)
+interface GraphSegment {
+  upper: string
+  lower: string
+  from: number
+  to: number
+  channel: number
+}
+
+// Give every bending segment between two layers a channel, numbered from the upper layer,
+// and return how many there are. Segments fanning out of or into the same point share one;
+// other segments in a channel never overlap, and one leaving a column runs above any that
+// enters that column from elsewhere so their stubs stay apart.
+function assignGraphChannels(segments: GraphSegment[]): number {
+  const groups: GraphSegment[][] = []
+  let rest = segments
+  for (const end of ["upper", "lower"] as const) {
+    const keyOf = (segment: GraphSegment) =>
+      end === "upper" ? `${segment.upper}:${segment.from}` : `${segment.lower}:${segment.to}`
+    const byEnd = new Map<string, GraphSegment[]>()
+    for (const segment of rest) byEnd.set(keyOf(segment), [...byEnd.get(keyOf(segment)) ?? [], segment])
+    groups.push(...[...byEnd.values()].filter(group => group.length > 1))
+    rest = rest.filter(segment => byEnd.get(keyOf(segment))!.length === 1)
+  }
+  groups.push(...rest.map(segment => [segment]))
+
+  const spanOf = (group: GraphSegment[]) => {
+    const ends = group.flatMap(segment => [segment.from, segment.to])
+    return { low: Math.min(...ends), high: Math.max(...ends) }
+  }
+  const above = new Map(groups.map(group => [group, groups.filter(other =>
+    other !== group && other.some(a => group.some(b => a.from === b.to)))]))
+
+  // Place groups from left to right once everything above them is placed, breaking cycles
+  // at the leftmost remaining group
+  const pending = [...groups].sort((a, b) => spanOf(a).low - spanOf(b).low)
+  const channels: { low: number; high: number }[][] = []
+  const channelOf = new Map<GraphSegment[], number>()
+  while (pending.length > 0) {
+    const ready = pending.findIndex(group => above.get(group)!.every(other => channelOf.has(other)))
+    const group = pending.splice(Math.max(0, ready), 1)[0]!
+    const span = spanOf(group)
+    let channel = Math.max(-1, ...above.get(group)!.map(other => channelOf.get(other) ?? -1)) + 1
+    while (channels[channel]?.some(other => other.low <= span.high && span.low <= other.high)) channel++
+    ;(channels[channel] ??= []).push(span)
+    channelOf.set(group, channel)
+    for (const segment of group) segment.channel = channel
+  }
+  return channels.length
+}
+
+// Layered layout on the character grid: one labeled box per node and one elbow
+// connector per edge. Edges spanning several layers pass through a reserved
+// slot in every layer they cross so they never run through other boxes, and
+// bend between layers in channels of their own.
+// Coordinates are computed as (rank, order) - along and across the flow - and
+// mapped to (x, y) at the end.
+function layoutGraph(graph: GraphModel): TigmaFile {
+  const horizontal = graph.direction === "LR" || graph.direction === "RL"
+  const reversed = graph.direction === "BT" || graph.direction === "RL"
+  const layerOf = assignGraphLayers(graph)
+  const layerCount = Math.max(0, ...layerOf.values()) + 1
+  const rankOf = (id: string) => reversed ? layerCount - 1 - layerOf.get(id)! : layerOf.get(id)!
+
+  // Layer members: real nodes, plus one pass-through slot per edge and crossed layer
+  interface Slot {
+    id: string
+    along: number
+    across: number
+  }
+  // Edges against the flow attach to their nodes next to the others, so that arrowheads only
+  // mark the ends they belong to. Across a horizontal flow, their nodes are taller to fit them.
+  const reversedEdgeNodes = new Set(graph.edges
+    .filter(edge => rankOf(edge.from) > rankOf(edge.to))
+    .flatMap(edge => [edge.from, edge.to]))
+  const layers: Slot[][] = Array.from({ length: layerCount }, () => [])
+  for (const node of graph.nodes) {
+    const width = Array.from(node.label).length + 4
+    layers[rankOf(node.id)]!.push({
+      id: node.id,
+      along: horizontal ? width : 3,
+      across: horizontal ? (reversedEdgeNodes.has(node.id) ? 5 : 3) : width,
+    })
+  }
+
+  // Each edge becomes a chain from its upper to its lower layer
+  interface Chain {
+    edge: GraphEdge
+    ids: string[]
+    flipped: boolean
+  }
+  const chains: Chain[] = []
+  graph.edges.forEach((edge, index) => {
+    if (edge.from === edge.to) return
+    const flipped = rankOf(edge.from) > rankOf(edge.to)
+    const [top, bottom] = flipped ? [edge.to, edge.from] : [edge.from, edge.to]
+    const ids = [top]
+    for (let rank = rankOf(top) + 1; rank < rankOf(bottom); rank++) {
+      const id = `\0edge${index}:${rank}`
+      layers[rank]!.push({ id, along: 0, across: 1 })
+      ids.push(id)
+    }
+    ids.push(bottom)
+    chains.push({ edge, ids, flipped })
+  })
+
+  // Order each layer by the average position of its neighbors above (barycenter heuristic)
+  const neighborsAbove = new Map<string, string[]>()
+  for (const chain of chains) {
+    for (let i = 1; i < chain.ids.length; i++) {
+      const list = neighborsAbove.get(chain.ids[i]!) ?? []
+      list.push(chain.ids[i - 1]!)
+      neighborsAbove.set(chain.ids[i]!, list)
+    }
+  }
+  const position = new Map<string, number>()
+  layers.forEach(layer => layer.forEach((slot, i) => position.set(slot.id, i)))
+  for (let i = 1; i < layers.length; i++) {
+    const barycenter = (slot: Slot) => {
+      const above = neighborsAbove.get(slot.id) ?? []
+      if (above.length === 0) return position.get(slot.id)!
+      return above.reduce((sum, id) => sum + position.get(id)!, 0) / above.length
+    }
+    const keyed = layers[i]!.map(slot => ({ slot, key: barycenter(slot) }))
+    keyed.sort((a, b) => a.key - b.key)
+    layers[i] = keyed.map(k => k.slot)
+    layers[i]!.forEach((slot, j) => position.set(slot.id, j))
+  }
+
+  // Assign coordinates: layers are centered across the widest one
+  const orderGap = horizontal ? GRAPH_ORDER_GAP_VERTICAL : GRAPH_ORDER_GAP_HORIZONTAL
+  const longestEdgeLabel = Math.max(0, ...graph.edges.map(e => Array.from(e.label ?? "").length))
+  const rankGap = horizontal
+    ? Math.max(GRAPH_RANK_GAP_HORIZONTAL, longestEdgeLabel + 4)
+    : GRAPH_RANK_GAP_VERTICAL
+  const layerSpan = layers.map(layer =>
+    layer.reduce((sum, slot) => sum + slot.across, 0) + Math.max(0, layer.length - 1) * orderGap)
+  const widestSpan = Math.max(0, ...layerSpan)
+
+  // Extent of every slot across the flow; edges attach to the middle of it
+  const acrossOf = new Map<string, { o1: number; o2: number }>()
+  layers.forEach((layer, i) => {
+    let orderOffset = Math.floor((widestSpan - layerSpan[i]!) / 2)
+    for (const slot of layer) {
+      acrossOf.set(slot.id, { o1: orderOffset, o2: orderOffset + slot.across - 1 })
+      orderOffset += slot.across + orderGap
+    }
+  })
+  const center = (id: string) => {
+    const { o1, o2 } = acrossOf.get(id)!
+    return Math.floor((o1 + o2) / 2)
+  }
+  const portOf = (id: string, chain: Chain) => center(id) + (chain.flipped && layerOf.has(id) ? 1 : 0)
+
+  // Split edges into segments between adjacent layers and route the bending ones in channels.
+  // Across a horizontal flow, gaps also make room for the labels written along the first stub
+  // of reversed edges and the last stub of the others.
+  const segmentsOf = new Map<Chain, GraphSegment[]>()
+  const gapSegments: GraphSegment[][] = layers.map(() => [])
+  const labelsBefore = layers.map(() => 0)
+  const labelsAfter = layers.map(() => 0)
+  for (const chain of chains) {
+    const rank = rankOf(chain.ids[0]!)
+    const segments = chain.ids.slice(1).map((lower, i) => {
+      const upper = chain.ids[i]!
+      return { upper, lower, from: portOf(upper, chain), to: portOf(lower, chain), channel: 0 }
+    })
+    segments.forEach((segment, i) => {
+      if (segment.from !== segment.to) gapSegments[rank + i]!.push(segment)
+    })
+    segmentsOf.set(chain, segments)
+
+    const label = Array.from(chain.edge.label ?? "").length
+    if (chain.flipped) labelsBefore[rank] = Math.max(labelsBefore[rank]!, label)
+    else labelsAfter[rank + segments.length - 1] = Math.max(labelsAfter[rank + segments.length - 1]!, label)
+  }
+  const channelCounts = gapSegments.map(assignGraphChannels)
+
+  // Box of every slot in (rank, order) space: r1..r2 along the flow, o1..o2 across it
+  const place = new Map<string, { r1: number; r2: number; o1: number; o2: number }>()
+  const channelRanks: number[] = []
+  let rankOffset = 0
+  layers.forEach((layer, i) => {
+    const thickness = Math.max(1, ...layer.map(slot => slot.along))
+    for (const slot of layer) {
+      // Nodes are centered within the layer; pass-through slots span all of it
+      const along = slot.along === 0 ? thickness : slot.along
+      const r1 = rankOffset + Math.floor((thickness - along) / 2)
+      place.set(slot.id, { r1, r2: r1 + along - 1, ...acrossOf.get(slot.id)! })
+    }
+    rankOffset += thickness
+
+    // Channels are centered between the stubs leaving and entering the layers
+    const labels = horizontal ? labelsBefore[i]! + labelsAfter[i]! : 0
+    const gap = Math.max(rankGap, channelCounts[i]! + labels + 2)
+    const free = gap - 2 - labels
+    channelRanks.push(rankOffset + 1 + (horizontal ? labelsBefore[i]! : 0) + Math.floor((free - channelCounts[i]!) / 2))
+    rankOffset += gap
+  })
+
+  const toXY = (r: number, o: number) => horizontal ? { x: r, y: o } : { x: o, y: r }
+  const stroke = DEFAULT_TEXT_COLOR
+  const scene: Scene = { textBoxes: [], rectangles: [], lines: [], freehands: [] }
+  let zIndex = 1
+
+  const addText = (x: number, y: number, text: string) => {
+    scene.textBoxes.push({
+      id: scene.textBoxes.length + 1,
+      x, y,
+      chars: Array.from(text).map(char => ({ char, bold: false, color: null })),
+      zIndex: zIndex++,
+      hidden: false,
+      locked: false,
+      groups: [],
+      strokeColor: stroke,
+      fillColor: null,
+    })
+  }
+  // Edges are connectors from the side of one node facing the next layer to the opposite side
+  // of the other, so they follow the nodes when those are moved. Edges along the flow stay in
+  // the middle of the sides; the others slide along them to line up with their waypoints.
+  const rectIds = new Map<string, number>()
+  const addEdge = (edge: GraphEdge, points: { r: number; o: number }[], flipped: boolean) => {
+    const [start, ...rest] = points.map(p => toXY(p.r, p.o))
+    const end = rest.pop()!
+    const down: BindingPoint = flipped ? (horizontal ? "right" : "bottom") : (horizontal ? "e" : "s")
+    const up: BindingPoint = flipped ? (horizontal ? "left" : "top") : (horizontal ? "w" : "n")
+    scene.lines.push({
+      id: scene.lines.length + 1,
+      x1: start!.x, y1: start!.y, x2: end.x, y2: end.y,
+      elbow: true,
+      waypoints: rest,
+      startBinding: { rectId: rectIds.get(edge.from)!, point: flipped ? up : down },
+      endBinding: { rectId: rectIds.get(edge.to)!, point: flipped ? down : up },
+      startMarker: edge.startMarker,
+      endMarker: edge.endMarker,
+      strokeStyle: "light",
+      bold: false,
+      zIndex: zIndex++,
+      hidden: false,
+      locked: false,
+      groups: [],
+      strokeColor: stroke,
+      fillColor: null,
+    })
+  }
+
+  for (const node of graph.nodes) {
+    const box = place.get(node.id)!
+    const topLeft = toXY(box.r1, box.o1)
+    const bottomRight = toXY(box.r2, box.o2)
+    scene.rectangles.push({
+      id: scene.rectangles.length + 1,
+      x1: topLeft.x, y1: topLeft.y, x2: bottomRight.x, y2: bottomRight.y,
+      strokeStyle: "light",
+      bold: false,
+      zIndex: zIndex++,
+      hidden: false,
+      locked: false,
+      groups: [],
+      strokeColor: stroke,
+      fillColor: null,
+    })
+    rectIds.set(node.id, scene.rectangles.length)
+    addText(topLeft.x + 2, Math.floor((topLeft.y + bottomRight.y) / 2), node.label)
+  }
+
+  for (const chain of chains) {
+    // Leave the upper box, turn into a channel wherever the edge bends and enter the lower box
+    const top = chain.ids[0]!
+    const bottom = chain.ids[chain.ids.length - 1]!
+    const waypoints = [{ r: place.get(top)!.r2 + 1, o: portOf(top, chain) }]
+    segmentsOf.get(chain)!.forEach((segment, i) => {
+      if (segment.from === segment.to) return
+      const r = channelRanks[rankOf(top) + i]! + segment.channel
+      waypoints.push({ r, o: segment.from }, { r, o: segment.to })
+    })
+    // A straight edge against the flow gets a waypoint anyway, for its ends to line up with
+    if (chain.flipped && waypoints.length === 1) waypoints.push({ r: channelRanks[rankOf(top)]!, o: waypoints[0]!.o })
+    waypoints.push({ r: place.get(bottom)!.r1 - 1, o: portOf(bottom, chain) })
+    addEdge(chain.edge, chain.flipped ? [...waypoints].reverse() : waypoints, chain.flipped)
+
+    const label = chain.edge.label
+    if (label) {
+      // Next to the stub entering the edge's target
+      const anchor = chain.flipped ? waypoints[0]! : waypoints[waypoints.length - 1]!
+      if (horizontal) {
+        const point = toXY(anchor.r - Array.from(label).length + (chain.flipped ? Array.from(label).length : 0), anchor.o - 1)
+        addText(point.x, point.y, label)
+      } else {
+        const point = toXY(anchor.r, anchor.o + 2)
+        addText(point.x, point.y, label)
+      }
+    }
+  }
+
+  return sceneToFileData(scene)
+}
+
+// Opening and closing brackets of Mermaid node shapes, longest first
+const MERMAID_SHAPES: [string, string][] = [
+  ["(((", ")))"], ["((", "))"], ["([", "])"], ["[[", "]]"], ["[(", ")]"], ["{{", "}}"],
+  ["[/", "/]"], ["[\\", "\\]"], ["[", "]"], ["(", ")"], ["{", "}"], [">", "]"],
+]
+const MERMAID_LABELED_LINK = /^\s*(?<tail><)?(?:--|==|-\.)\s+(?<label>[^>|]+?)\s*(?:-{2,}|={2,}|\.-+)(?<head>[>ox])?/
+const MERMAID_LINK = /^\s*(?<tail><)?(?:-{2,}|={2,}|-\.+-|~{3,})(?<head>[>ox])?(?:\s*\|(?<label>[^|]*)\|)?/
+// Markers for Mermaid link ends; crosses (`--x`) have none
+const MERMAID_LINK_MARKERS: Record<string, LineMarker> = { "<": "arrow", ">": "arrow", o: "circle" }
+const MERMAID_IGNORED = /^(subgraph|end|classDef|class|style|linkStyle|click|direction)\b/
+
+// Parse a Mermaid flowchart/graph definition into nodes and edges
+function parseMermaid(source: string): GraphModel {
+  const graph: GraphModel = { direction: "TB", nodes: [], edges: [] }
+  const nodes = new Map<string, GraphNode>()
+
+  const statements = source
+    .split(/\r?\n|;/)
+    .map(line => line.replace(/%%.*$/, "").trim())
+    .filter(line => line !== "")
+
+  const header = statements.shift()
+  const headerMatch = header ? /^(?:flowchart|graph)\b\s*(TB|TD|BT|LR|RL)?/i.exec(header) : null
+  if (!headerMatch) {
+    throw new Error("Not a Mermaid flowchart: expected 'flowchart' or 'graph' header")
+  }
+  const direction = (headerMatch[1] ?? "TB").toUpperCase()
+  graph.direction = direction === "TD" ? "TB" : direction as GraphDirection
+
+  const defineNode = (id: string, label: string | null) => {
+    const existing = nodes.get(id)
+    if (existing) {
+      if (label !== null) existing.label = label
+      return
+    }
+    const node = { id, label: label ?? id }
+    nodes.set(id, node)
+    graph.nodes.push(node)
+  }
+
+  for (const statement of statements) {
+    if (MERMAID_IGNORED.test(statement)) continue
+
+    let rest = statement
+    // Reads "A", "A[Label]" or "A & B(Other)" and returns the node ids
+    const readNodeGroup = (): string[] => {
+      const ids: string[] = []
+      while (true) {
+        const idMatch = /^\s*([\w$]+)/.exec(rest)
+        if (!idMatch) break
+        rest = rest.slice(idMatch[0].length)
+        let label: string | null = null
+        const shape = MERMAID_SHAPES.find(([open]) => rest.startsWith(open))
+        if (shape) {
+          const close = rest.indexOf(shape[1], shape[0].length)
+          if (close < 0) throw new Error(`Unclosed node shape in: ${statement}`)
+          label = rest.slice(shape[0].length, close).trim().replace(/^"(.*)"$/, "$1")
+          rest = rest.slice(close + shape[1].length)
+        }
+        defineNode(idMatch[1]!, label)
+        ids.push(idMatch[1]!)
+
+        const amp = /^\s*&/.exec(rest)
+        if (!amp) break
+        rest = rest.slice(amp[0].length)
+      }
+      return ids
+    }
+
+    let sources = readNodeGroup()
+    if (sources.length === 0) continue
+    while (rest.trim() !== "") {
+      const link = MERMAID_LABELED_LINK.exec(rest) ?? MERMAID_LINK.exec(rest)
+      if (!link) throw new Error(`Unrecognized Mermaid syntax: ${statement}`)
+      rest = rest.slice(link[0].length)
+      const label = link.groups!.label?.trim() || null
+      const startMarker = MERMAID_LINK_MARKERS[link.groups!.tail ?? ""] ?? "none"
+      const endMarker = MERMAID_LINK_MARKERS[link.groups!.head ?? ""] ?? "none"
+
+      const targets = readNodeGroup()
+      if (targets.length === 0) throw new Error(`Missing link target in: ${statement}`)
+      for (const from of sources) {
+        for (const to of targets) graph.edges.push({ from, to, label, startMarker, endMarker })
+      }
+      sources = targets
+    }
+  }
+
+  return graph
+}
+
+function importMermaid(source: string): TigmaFile {
+  return layoutGraph(parseMermaid(source))
+}
+
+// Tokens of the DOT language: identifiers/strings (quoted flag kept) and punctuation
+interface DotToken {
+  value: string
+  quoted: boolean
+}
+
+function tokenizeDot(source: string): DotToken[] {
+  const tokens: DotToken[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]!
+    const rest = source.slice(i)
+
+    if (/\s/.test(ch)) {
+      i++
+    } else if (rest.startsWith("//") || (ch === "#" && (i === 0 || source[i - 1] === "\n"))) {
+      const end = source.indexOf("\n", i)
+      i = end < 0 ? source.length : end
+    } else if (rest.startsWith("/*")) {
+      const end = source.indexOf("*/", i + 2)
+      if (end < 0) throw new Error("Unterminated comment")
+      i = end + 2
+    } else if (rest.startsWith("->") || rest.startsWith("--")) {
+      tokens.push({ value: rest.slice(0, 2), quoted: false })
+      i += 2
+    } else if ("{}[];,=:".includes(ch)) {
+      tokens.push({ value: ch, quoted: false })
+      i++
+    } else if (ch === '"') {
+      let value = ""
+      i++
+      while (i < source.length && source[i] !== '"') {
+        if (source[i] === "\\" && i + 1 < source.length) {
+          const escaped = source[i + 1]!
+          // Line breaks in labels collapse to spaces on a single-row text box
+          value += "nlr".includes(escaped) ? " " : escaped === '"' ? '"' : `\\${escaped}`
+          i += 2
+        } else {
+          value += source[i++]
+        }
+      }
+      if (i >= source.length) throw new Error("Unterminated string")
+      tokens.push({ value: value.trim(), quoted: true })
+      i++
+    } else if (ch === "<") {
+      // HTML-like label: keep the text content only
+      let depth = 0
+      let end = i
+      for (; end < source.length; end++) {
+        if (source[end] === "<") depth++
+        else if (source[end] === ">" && --depth === 0) break
+      }
+      if (end >= source.length) throw new Error("Unterminated HTML string")
+      const text = source.slice(i + 1, end).replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim()
+      tokens.push({ value: text, quoted: true })
+      i = end + 1
+    } else {
+      const match = /^[\w.\u0080-￿-]+/.exec(rest)
+      if (!match) throw new Error(`Unexpected character '${ch}'`)
+      tokens.push({ value: match[0], quoted: false })
+      i += match[0].length
+    }
+  }
+  return tokens
+}
+
+const DOT_RANKDIRS: Record<string, GraphDirection> = { TB: "TB", BT: "BT", LR: "LR", RL: "RL" }
+
+// Which ends of an edge get an arrowhead for each `dir` attribute value
+const DOT_EDGE_DIRS: Record<string, { start: boolean; end: boolean }> = {
+  forward: { start: false, end: true },
+  back: { start: true, end: false },
+  both: { start: true, end: true },
+  none: { start: false, end: false },
+}
+
+// Parse a Graphviz graph/digraph: nodes, edges, labels, subgraphs and rankdir
+function parseDot(source: string): GraphModel {
+  const tokens = tokenizeDot(source)
+  const graph: GraphModel = { direction: "TB", nodes: [], edges: [] }
+  const nodes = new Map<string, GraphNode>()
+  let pos = 0
+  let directed = false
+
+  const peek = (offset = 0) => tokens[pos + offset]
+  const isPunct = (value: string, offset = 0) => {
+    const token = peek(offset)
+    return token !== undefined && !token.quoted && token.value === value
+  }
+  const expect = (value: string) => {
+    if (!isPunct(value)) throw new Error(`Expected '${value}' but found '${peek()?.value ?? "end of file"}'`)
+    pos++
+  }
+  const readId = (): string => {
+    const token = peek()
+    if (!token || (!token.quoted && /^[{}[\];,=:]$|^-[->]$/.test(token.value))) {
+      throw new Error(`Expected an identifier but found '${token?.value ?? "end of file"}'`)
+    }
+    pos++
+    return token.value
+  }
+
+  const readAttributes = (): Map<string, string> => {
+    const attrs = new Map<string, string>()
+    while (isPunct("[")) {
+      pos++
+      while (!isPunct("]")) {
+        const key = readId()
+        expect("=")
+        attrs.set(key.toLowerCase(), readId())
+        if (isPunct(",") || isPunct(";")) pos++
+      }
+      pos++
+    }
+    return attrs
+  }
+
+  const defineNode = (id: string, label?: string) => {
+    let node = nodes.get(id)
+    if (!node) {
+      node = { id, label: id }
+      nodes.set(id, node)
+      graph.nodes.push(node)
+    }
+    if (label !== undefined) node.label = label.replace(/\\N/g, id)
+    return node
+  }
+
+  const setGraphAttribute = (key: string, value: string) => {
+    if (key.toLowerCase() === "rankdir") {
+      graph.direction = DOT_RANKDIRS[value.toUpperCase()] ?? graph.direction
+    }
+  }
+
+  // A node reference (with optional port) or a subgraph; returns the node ids it stands for
+  const readOperand = (): string[] => {
+    if (isPunct("{") || (peek()?.value === "subgraph" && !peek()!.quoted)) {
+      return readSubgraph()
+    }
+    const id = readId()
+    if (isPunct(":")) {
+      pos++
+      readId()
+      if (isPunct(":")) {
+        pos++
+        readId()
+      }
+    }
+    defineNode(id)
+    return [id]
+  }
+
+  const readSubgraph = (): string[] => {
+    if (peek()?.value === "subgraph") {
+      pos++
+      if (!isPunct("{")) readId()
+    }
+    expect("{")
+    const before = new Set(nodes.keys())
+    const members = readStatements()
+    expect("}")
+    // Nodes first mentioned inside belong to it, as well as any it references
+    return [...new Set([...members, ...[...nodes.keys()].filter(id => !before.has(id))])]
+  }
+
+  const readStatements = (): string[] => {
+    const mentioned: string[] = []
+    while (peek() && !isPunct("}")) {
+      const keyword = peek()!.quoted ? "" : peek()!.value.toLowerCase()
+
+      if ((keyword === "graph" || keyword === "node" || keyword === "edge") && isPunct("[", 1)) {
+        pos++
+        const attrs = readAttributes()
+        if (keyword === "graph") attrs.forEach((value, key) => setGraphAttribute(key, value))
+      } else if (isPunct("=", 1)) {
+        const key = readId()
+        pos++
+        setGraphAttribute(key, readId())
+      } else {
+        let operands = readOperand()
+        mentioned.push(...operands)
+        const chain: string[][] = [operands]
+        while (isPunct("->") || isPunct("--")) {
+          pos++
+          operands = readOperand()
+          mentioned.push(...operands)
+          chain.push(operands)
+        }
+        const attrs = readAttributes()
+        const label = attrs.get("label")
+
+        if (chain.length === 1) {
+          if (label !== undefined) for (const id of operands) defineNode(id, label)
+        } else {
+          // Digraph edges point forward unless `dir` says otherwise
+          const dir = DOT_EDGE_DIRS[attrs.get("dir")?.toLowerCase() ?? (directed ? "forward" : "none")]
+            ?? DOT_EDGE_DIRS.forward!
+          const startMarker: LineMarker = dir.start ? "arrow" : "none"
+          const endMarker: LineMarker = dir.end ? "arrow" : "none"
+          for (let i = 1; i < chain.length; i++) {
+            for (const from of chain[i - 1]!) {
+              for (const to of chain[i]!) graph.edges.push({ from, to, label: label || null, startMarker, endMarker })
+            }
+          }
+        }
+      }
+
+      if (isPunct(";") || isPunct(",")) pos++
+    }
+    return mentioned
+  }
+
+  if (peek()?.value.toLowerCase() === "strict") pos++
+  const kind = peek()?.value.toLowerCase()
+  if (kind !== "graph" && kind !== "digraph") {
+    throw new Error("Not a DOT graph: expected 'graph' or 'digraph'")
+  }
+  directed = kind === "digraph"
+  pos++
+  if (!isPunct("{")) readId()
+  expect("{")
+  readStatements()
+  expect("}")
+
+  return graph
+}
+
+function importDot(source: string): TigmaFile {
+  return layoutGraph(parseDot(source))
+}
+
+// Formats that can be opened besides native .tigma files
+const IMPORT_EXTENSIONS: Record<string, (content: string) => TigmaFile> = {
+  ".txt": importAsciiArt,
+  ".mmd": importMermaid,
+  ".mermaid": importMermaid,
+  ".dot": importDot,
+  ".gv": importDot,
+}
+
+function isImportPath(filePath: string): boolean {
+  return Object.hasOwn(IMPORT_EXTENSIONS, path.extname(filePath).toLowerCase())
+}
+
+// Load a native design or convert a supported foreign format, throwing on failure.
+// Parts of a native design that had to be skipped are added to `issues`.
+function loadDesignFile(filePath: string, issues: FileIssue[] = []): TigmaFile {
+  const importer = IMPORT_EXTENSIONS[path.extname(filePath).toLowerCase()]
+  if (importer) {
+    return importer(fs.readFileSync(filePath, "utf-8"))
+  }
+  return readTigmaFile(filePath, issues)
+}
+
+// ==================== Markdown Sync ====================
+
+// `<!-- tigma: path/to/design.tigma -->` placed right above a fenced code block; a
+// `#Frame name` suffix picks a frame other than the first
+const TIGMA_MARKER = /^\s*<!--\s*tigma:\s*(.+?)\s*-->\s*$/
+const FENCE_OPEN = /^(\s*)(`{3,}|~{3,})/
+
+interface MarkdownSyncResult {
+  content: string
+  blocks: number
+  stale: string[]  // sources whose fenced text was out of date
+  issues: string[]  // problems skipped while loading sources, prefixed with the source
+}
+
+// Closing line of a fence opened with `fence`: the same character, at least as many times
+function getFenceClose(fence: string): RegExp {
+  return new RegExp(`^\\s*${fence[0]}{${fence.length},}\\s*$`)
+}
+
+// Regenerate every tagged fence from its .tigma source (relative to baseDir).
+// Markers inside other fences are examples, not tags. Throws if a referenced file can't be loaded.
+function syncMarkdown(markdown: string, baseDir: string): MarkdownSyncResult {
+  const lines = markdown.split("\n")
+  const out: string[] = []
+  const stale: string[] = []
+  const issues: string[] = []
+  let blocks = 0
+  let outerFenceClose: RegExp | null = null
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+    out.push(line)
+
+    if (outerFenceClose) {
+      if (outerFenceClose.test(line)) outerFenceClose = null
+      continue
+    }
+    const outerFence = FENCE_OPEN.exec(line)
+    if (outerFence) {
+      outerFenceClose = getFenceClose(outerFence[2]!)
+      continue
+    }
+
+    const marker = TIGMA_MARKER.exec(line)
+    if (!marker) continue
+
+    const source = marker[1]!
+    const hash = source.lastIndexOf("#")
+    const sourcePath = hash === -1 ? source : source.slice(0, hash)
+    const frameName = hash === -1 ? null : source.slice(hash + 1)
+    const sourceIssues: FileIssue[] = []
+    const data = loadDesignFile(path.resolve(baseDir, sourcePath), sourceIssues)
+    issues.push(...sourceIssues.map(issue => `${sourcePath}: ${formatFileIssue(issue)}`))
+    const frame = findFrame(data, frameName)
+    const generated = exportSceneAsText(sceneFromFrame(frame), frame.page).replace(/\n$/, "")
+    const generatedLines = generated === "" ? [] : generated.split("\n")
+    blocks++
+
+    // Blank lines between the marker and the fence are kept
+    let next = i + 1
+    while (next < lines.length && lines[next]!.trim() === "") next++
+
+    const open = next < lines.length ? FENCE_OPEN.exec(lines[next]!) : null
+    if (!open) {
+      // No fence yet - insert one right after the marker
+      out.push("```text", ...generatedLines, "```")
+      stale.push(source)
+      continue
+    }
+
+    const indent = open[1]!
+    const fence = open[2]!
+    const fenceClose = getFenceClose(fence)
+    let close = next + 1
+    while (close < lines.length && !fenceClose.test(lines[close]!)) close++
+
+    const current = lines.slice(next + 1, close).map(l => l.startsWith(indent) ? l.slice(indent.length) : l)
+    if (current.join("\n") !== generatedLines.join("\n")) {
+      stale.push(source)
+    }
+
+    out.push(...lines.slice(i + 1, next + 1))
+    out.push(...generatedLines.map(l => l === "" ? l : indent + l))
+    out.push(`${indent}${fence}`)
+    i = close
+  }
+
+  return { content: out.join("\n"), blocks, stale, issues }
 }
 
 class CanvasApp {
@@ -188,6 +2826,7 @@ class CanvasApp {
   private boldMode = false
   private canvas: BoxRenderable
   private currentFilePath: string | null = null
+  private defaultFileName = "design.tigma"
   private saveStatusMessage: string | null = null
   private saveStatusTimeout: number = 0
 
@@ -197,11 +2836,53 @@ class CanvasApp {
   // Save prompt state
   private showSavePrompt: boolean = false
   private savePromptInput: string = ""
+  private savePromptMode: PromptMode = "save"
 
-  // Canvas dimensions
+  // Canvas dimensions (the visible window onto the world)
   private gridWidth = 0
   private gridHeight = 0
 
+  // World position of the top-left canvas cell. Objects live in unbounded world
+  // coordinates; everything on screen is offset by the viewport.
+  private viewportX = 0
+  private viewportY = 0
+  // Screen position of that cell (the rulers take the top row and left columns)
+  private viewOffsetX = 0
+  private viewOffsetY = 0
+  private showRulers = false
+  private isPanArmed = false  // Space pressed: the next drag pans
+  private isPanning = false
+  private panStartX = 0
+  private panStartY = 0
+  private panOriginX = 0
+  private panOriginY = 0
+
+  // Minimap overlay (top right)
+  private showMinimap = false
+  private isDraggingMinimap = false
+
+  // Layers panel (right edge)
+  private showLayersPanel = false
+  private layersScroll = 0  // List rows scrolled out of view at the top
+  private layerDragRow: number | null = null  // List row being dragged to a new position
+  private layerDropRow = 0
+
+  // Fixed document area (null: unbounded); content outside it is flagged and not exported
+  private page: PageSize | null = null
+
+  // Frames (artboards). The active one is edited in the fields below; its entry here is
+  // only brought up to date when switching or saving.
+  private frames: StoredFrame[] = [{
+    frame: sceneToFrame({ textBoxes: [], rectangles: [], lines: [], freehands: [] }, DEFAULT_FRAME_NAME),
+    historyStack: [],
+    redoStack: [],
+    viewportX: 0,
+    viewportY: 0,
+  }]
+  private activeFrameIndex = 0
+  private frameLabelStartX = 0  // Toolbar columns of the frame label, which cycles frames on click
+  private frameLabelEndX = 0
+
   // Text boxes layer
   private textBoxes: TextBox[] = []
   private nextTextBoxId = 1
@@ -218,6 +2899,9 @@ class CanvasApp {
   private freehands: Freehand[] = []
   private nextFreehandId = 1
 
+  // Groups exist only as ids on their members
+  private nextGroupId = 1
+
   // Z-index for layer ordering (higher = on top)
   private nextZIndex = 1
 
@@ -226,6 +2910,9 @@ class CanvasApp {
   private isDrawingRect = false
   private isDrawingLine = false
   private isDrawingFreehand = false
+  private isLineBindingDisabled = false  // Alt held when the line was started: don't attach to shapes
+  private lineWaypoints: { x: number; y: number }[] = []  // Vertices clicked so far while drawing an elbow line
+  private draggedVertexIndex: number | null = null  // Vertex of the selected elbow line being dragged
   private tempFreehandPoints: { x: number; y: number }[] = []
   private drawStartX = 0
   private drawStartY = 0
@@ -266,6 +2953,9 @@ class CanvasApp {
   private lastMouseY = 0
   private hasDragged = false
   private clickedOnSelectedTextBox = false
+  private dragAppliedX = 0  // Offset already applied to the selection in this drag (after snapping)
+  private dragAppliedY = 0
+  private alignmentGuides: AlignmentGuide[] = []
 
   // History for undo/redo
   private historyStack: HistorySnapshot[] = []
@@ -293,8 +2983,21 @@ class CanvasApp {
   private currentFillColorIndex = 0 // index in FILL_PALETTE (0 = transparent)
   private colorPickerMode: "stroke" | "fill" = "stroke"
 
-  private readonly textColor = RGBA.fromInts(255, 255, 255, 255)
-  private readonly bgColor = RGBA.fromInts(0, 0, 0, 255)
+  // Outline style for new rectangles and lines
+  private currentStrokeStyle: StrokeStyle = "light"
+  private strokeStyleLabelStartX = 0  // Toolbar columns of the stroke style, which cycles it on click
+  private strokeStyleLabelEndX = 0
+
+  // Markers for the ends of new lines
+  private currentStartMarker: LineMarker = "none"
+  private currentEndMarker: LineMarker = "none"
+  private markerPickerX = -1  // Toolbar column of the start marker (the end marker is 2 to the right)
+  private elbowMode = false  // New lines are elbow lines
+  private lineModeLabelStartX = 0  // Toolbar columns of the straight/elbow label, which toggles it on click
+  private lineModeLabelEndX = 0
+
+  private readonly textColor = DEFAULT_TEXT_COLOR
+  private readonly bgColor = CANVAS_BG_COLOR
   private readonly cursorBgColor = RGBA.fromInts(80, 80, 80, 255)
   private readonly toolbarBgColor = RGBA.fromInts(30, 30, 30, 255)
   private readonly toolbarTextColor = RGBA.fromInts(200, 200, 200, 255)
@@ -305,8 +3008,26 @@ class CanvasApp {
   private readonly selectedBgColor = RGBA.fromInts(25, 40, 80, 255)  // muted blue tint
   private readonly handleColor = RGBA.fromInts(50, 80, 160, 255)  // slightly brighter blue for handles
   private readonly textBoxBorderColor = RGBA.fromInts(100, 150, 255, 255)
+  private readonly pageBorderColor = RGBA.fromInts(90, 90, 90, 255)
+  private readonly offPageBgColor = RGBA.fromInts(15, 15, 15, 255)
+  private readonly offPageContentColor = RGBA.fromInts(110, 25, 25, 255)  // content that won't export
+  private readonly guideColor = RGBA.fromInts(255, 80, 200, 255)
+  private readonly guideBgColor = RGBA.fromInts(90, 30, 75, 255)
+  private readonly rulerBgColor = RGBA.fromInts(30, 30, 30, 255)
+  private readonly minimapBgColor = RGBA.fromInts(20, 20, 30, 255)
+  private readonly minimapViewportColor = RGBA.fromInts(45, 60, 110, 255)
+  private readonly layersPanelBgColor = RGBA.fromInts(20, 20, 20, 255)
+  private readonly hiddenLayerColor = RGBA.fromInts(110, 110, 110, 255)
 
   private readonly TOOLBAR_HEIGHT = 1
+  private readonly SCROLL_PAN_STEP = 3
+  private readonly KEY_PAN_STEP = 1
+  private readonly KEY_PAN_STEP_LARGE = 10
+  private readonly MINIMAP_WIDTH = 24
+  private readonly MINIMAP_HEIGHT = 8
+  private readonly SNAP_DISTANCE = 2
+  private readonly RULER_WIDTH = 5
+  private readonly LAYERS_PANEL_WIDTH = 28
 
   constructor(renderer: CliRenderer) {
     this.renderer = renderer
@@ -385,6 +3106,7 @@ class CanvasApp {
       nextRectId: this.nextRectId,
       nextLineId: this.nextLineId,
       nextFreehandId: this.nextFreehandId,
+      nextGroupId: this.nextGroupId,
       nextZIndex: this.nextZIndex,
     }
     this.historyStack.push(snapshot)
@@ -403,7 +3125,7 @@ class CanvasApp {
   }
 
   private cloneLines(lines: Line[]): Line[] {
-    return lines.map(l => ({ ...l }))
+    return lines.map(l => ({ ...l, waypoints: l.waypoints.map(p => ({ ...p })) }))
   }
 
   private cloneFreehands(freehands: Freehand[]): Freehand[] {
@@ -422,6 +3144,7 @@ class CanvasApp {
       nextRectId: this.nextRectId,
       nextLineId: this.nextLineId,
       nextFreehandId: this.nextFreehandId,
+      nextGroupId: this.nextGroupId,
       nextZIndex: this.nextZIndex,
     }
     this.redoStack.push(currentSnapshot)
@@ -435,6 +3158,7 @@ class CanvasApp {
     this.nextRectId = snapshot.nextRectId
     this.nextLineId = snapshot.nextLineId
     this.nextFreehandId = snapshot.nextFreehandId
+    this.nextGroupId = snapshot.nextGroupId
     this.nextZIndex = snapshot.nextZIndex
     this.activeTextBoxId = null
     this.hoveredTextBoxId = null
@@ -458,6 +3182,7 @@ class CanvasApp {
       nextRectId: this.nextRectId,
       nextLineId: this.nextLineId,
       nextFreehandId: this.nextFreehandId,
+      nextGroupId: this.nextGroupId,
       nextZIndex: this.nextZIndex,
     }
     this.historyStack.push(currentSnapshot)
@@ -471,6 +3196,7 @@ class CanvasApp {
     this.nextRectId = snapshot.nextRectId
     this.nextLineId = snapshot.nextLineId
     this.nextFreehandId = snapshot.nextFreehandId
+    this.nextGroupId = snapshot.nextGroupId
     this.nextZIndex = snapshot.nextZIndex
     this.activeTextBoxId = null
     this.hoveredTextBoxId = null
@@ -521,8 +3247,9 @@ class CanvasApp {
       minY = Math.min(minY, Math.min(rect.y1, rect.y2))
     }
     for (const line of selectedLines) {
-      minX = Math.min(minX, Math.min(line.x1, line.x2))
-      minY = Math.min(minY, Math.min(line.y1, line.y2))
+      const bounds = normalizeLine(line)
+      minX = Math.min(minX, bounds.x1)
+      minY = Math.min(minY, bounds.y1)
     }
     for (const fh of selectedFreehands) {
       for (const p of fh.points) {
@@ -571,6 +3298,22 @@ class CanvasApp {
     const newLineIds: number[] = []
     const newFreehandIds: number[] = []
 
+    // Copies stack in the same order as the originals, above everything else
+    const clipboardObjects = [
+      ...this.clipboard.textBoxes, ...this.clipboard.rectangles, ...this.clipboard.lines, ...this.clipboard.freehands,
+    ]
+    const zIndexMap = new Map<object, number>()
+    for (const obj of clipboardObjects.sort((a, b) => a.zIndex - b.zIndex)) {
+      zIndexMap.set(obj, this.nextZIndex++)
+    }
+
+    // Copies form new groups, nested the same way as the originals
+    const groupIdMap = new Map<number, number>()
+    const copyGroups = (groups: number[]) => groups.map(id => {
+      if (!groupIdMap.has(id)) groupIdMap.set(id, this.nextGroupId++)
+      return groupIdMap.get(id)!
+    })
+
     // Paste text boxes
     for (const box of this.clipboard.textBoxes) {
       const newBox: TextBox = {
@@ -578,7 +3321,8 @@ class CanvasApp {
         id: this.nextTextBoxId++,
         x: box.x + offsetX,
         y: box.y + offsetY,
-        zIndex: this.nextZIndex++,
+        zIndex: zIndexMap.get(box)!,
+        groups: copyGroups(box.groups),
         chars: box.chars.map(c => ({ ...c })),
       }
       this.textBoxes.push(newBox)
@@ -586,6 +3330,7 @@ class CanvasApp {
     }
 
     // Paste rectangles
+    const rectIdMap = new Map<number, number>()
     for (const rect of this.clipboard.rectangles) {
       const newRect: Rectangle = {
         ...rect,
@@ -594,13 +3339,19 @@ class CanvasApp {
         y1: rect.y1 + offsetY,
         x2: rect.x2 + offsetX,
         y2: rect.y2 + offsetY,
-        zIndex: this.nextZIndex++,
+        zIndex: zIndexMap.get(rect)!,
+        groups: copyGroups(rect.groups),
       }
       this.rectangles.push(newRect)
       newRectIds.push(newRect.id)
+      rectIdMap.set(rect.id, newRect.id)
     }
 
-    // Paste lines
+    // Paste lines, keeping them attached only to rectangles that were copied along
+    const copyBinding = (binding: LineBinding | null): LineBinding | null => {
+      const rectId = binding ? rectIdMap.get(binding.rectId) : undefined
+      return binding && rectId !== undefined ? { rectId, point: binding.point } : null
+    }
     for (const line of this.clipboard.lines) {
       const newLine: Line = {
         ...line,
@@ -609,7 +3360,11 @@ class CanvasApp {
         y1: line.y1 + offsetY,
         x2: line.x2 + offsetX,
         y2: line.y2 + offsetY,
-        zIndex: this.nextZIndex++,
+        waypoints: line.waypoints.map(p => ({ x: p.x + offsetX, y: p.y + offsetY })),
+        zIndex: zIndexMap.get(line)!,
+        groups: copyGroups(line.groups),
+        startBinding: copyBinding(line.startBinding),
+        endBinding: copyBinding(line.endBinding),
       }
       this.lines.push(newLine)
       newLineIds.push(newLine.id)
@@ -621,7 +3376,8 @@ class CanvasApp {
         ...fh,
         id: this.nextFreehandId++,
         points: fh.points.map(p => ({ x: p.x + offsetX, y: p.y + offsetY })),
-        zIndex: this.nextZIndex++,
+        zIndex: zIndexMap.get(fh)!,
+        groups: copyGroups(fh.groups),
       }
       this.freehands.push(newFh)
       newFreehandIds.push(newFh.id)
@@ -634,6 +3390,7 @@ class CanvasApp {
     for (const id of newLineIds) this.selectedLineIds.add(id)
     for (const id of newFreehandIds) this.selectedFreehandIds.add(id)
 
+    this.rerouteConnectors()
     this.renderer.requestRender()
     return true
   }
@@ -656,6 +3413,7 @@ class CanvasApp {
       this.freehands = this.freehands.filter(f => f.id !== id)
     }
     this.clearSelection()
+    this.rerouteConnectors()
 
     this.renderer.requestRender()
     return true
@@ -684,178 +3442,221 @@ class CanvasApp {
     this.renderer.requestRender()
   }
 
-  // ==================== File Save/Load ====================
+  // ==================== Frames ====================
 
-  private serializeColor(color: EntityColor): SerializedColor | null {
-    if (color === null) return null
-    return { r: color.r, g: color.g, b: color.b, a: color.a }
+  // A frame that hasn't been opened yet: no history, and the viewport at the origin (keeping
+  // the page border in view), or further up/left if the design extends there
+  private toStoredFrame(frame: TigmaFrame): StoredFrame {
+    const bounds = getSceneBounds(sceneFromFrame(frame))
+    const margin = frame.page ? -1 : 0
+    return {
+      frame,
+      historyStack: [],
+      redoStack: [],
+      viewportX: Math.min(margin, bounds?.x1 ?? 0),
+      viewportY: Math.min(margin, bounds?.y1 ?? 0),
+    }
   }
 
-  private deserializeColor(color: SerializedColor | null): EntityColor {
-    if (color === null) return null
-    return RGBA.fromValues(color.r, color.g, color.b, color.a)
+  private storeActiveFrame(): void {
+    this.frames[this.activeFrameIndex] = {
+      frame: this.toFrameData(),
+      historyStack: this.historyStack,
+      redoStack: this.redoStack,
+      viewportX: this.viewportX,
+      viewportY: this.viewportY,
+    }
   }
 
-  private serializeTextBox(box: TextBox): SerializedTextBox {
-    return {
-      id: box.id,
-      x: box.x,
-      y: box.y,
-      chars: box.chars.map(c => ({
-        char: c.char,
-        bold: c.bold,
-        color: this.serializeColor(c.color),
-      })),
-      zIndex: box.zIndex,
-      strokeColor: this.serializeColor(box.strokeColor),
-      fillColor: this.serializeColor(box.fillColor),
-    }
+  private restoreFrame(index: number): void {
+    const stored = this.frames[index]!
+    const scene = sceneFromFrame(stored.frame)
+    this.activeFrameIndex = index
+    this.textBoxes = scene.textBoxes
+    this.rectangles = scene.rectangles
+    this.lines = scene.lines
+    this.freehands = scene.freehands
+    this.nextTextBoxId = stored.frame.nextTextBoxId
+    this.nextRectId = stored.frame.nextRectId
+    this.nextLineId = stored.frame.nextLineId
+    this.nextFreehandId = stored.frame.nextFreehandId
+    this.nextGroupId = stored.frame.nextGroupId
+    this.nextZIndex = stored.frame.nextZIndex
+    this.page = stored.frame.page
+    this.viewportX = stored.viewportX
+    this.viewportY = stored.viewportY
+    this.historyStack = stored.historyStack
+    this.redoStack = stored.redoStack
+
+    // Reset UI state
+    this.activeTextBoxId = null
+    this.hoveredTextBoxId = null
+    this.hoveredRectId = null
+    this.hoveredLineId = null
+    this.hoveredFreehandId = null
+    this.clearSelection()
+    this.alignmentGuides = []
+
+    this.renderer.requestRender()
   }
 
-  private deserializeTextBox(box: SerializedTextBox): TextBox {
-    return {
-      id: box.id,
-      x: box.x,
-      y: box.y,
-      chars: box.chars.map(c => ({
-        char: c.char,
-        bold: c.bold,
-        color: this.deserializeColor(c.color),
-      })),
-      zIndex: box.zIndex,
-      strokeColor: this.deserializeColor(box.strokeColor),
-      fillColor: this.deserializeColor(box.fillColor),
-    }
+  private switchFrame(index: number): void {
+    if (index === this.activeFrameIndex || index < 0 || index >= this.frames.length) return
+
+    // Finish whatever is in progress before the objects are swapped out
+    this.setTool(this.currentTool)
+    this.storeActiveFrame()
+    this.restoreFrame(index)
+
+    this.saveStatusMessage = `Frame ${this.frames[index]!.frame.name}`
+    this.saveStatusTimeout = Date.now() + 2000
   }
 
-  private serializeRectangle(rect: Rectangle): SerializedRectangle {
-    return {
-      id: rect.id,
-      x1: rect.x1,
-      y1: rect.y1,
-      x2: rect.x2,
-      y2: rect.y2,
-      bold: rect.bold,
-      zIndex: rect.zIndex,
-      strokeColor: this.serializeColor(rect.strokeColor),
-      fillColor: this.serializeColor(rect.fillColor),
-    }
+  // Step through frames, wrapping around at either end
+  private cycleFrame(delta: number): void {
+    if (this.frames.length < 2) return
+    const count = this.frames.length
+    this.switchFrame((this.activeFrameIndex + delta + count) % count)
   }
 
-  private deserializeRectangle(rect: SerializedRectangle): Rectangle {
-    return {
-      id: rect.id,
-      x1: rect.x1,
-      y1: rect.y1,
-      x2: rect.x2,
-      y2: rect.y2,
-      bold: rect.bold,
-      zIndex: rect.zIndex,
-      strokeColor: this.deserializeColor(rect.strokeColor),
-      fillColor: this.deserializeColor(rect.fillColor),
+  private isFrameNameTaken(name: string): boolean {
+    return this.frames.some((f, i) => i !== this.activeFrameIndex && f.frame.name === name)
+  }
+
+  private promptNewFrame(): void {
+    let number = this.frames.length + 1
+    while (this.frames.some(f => f.frame.name === `Frame ${number}`)) number++
+    this.showSavePrompt = true
+    this.savePromptMode = "frame"
+    this.savePromptInput = `Frame ${number}`
+    this.renderer.requestRender()
+  }
+
+  private promptRenameFrame(): void {
+    this.showSavePrompt = true
+    this.savePromptMode = "rename"
+    this.savePromptInput = this.frames[this.activeFrameIndex]!.frame.name
+    this.renderer.requestRender()
+  }
+
+  // Asks for the name of the frame to delete, starting with the current one
+  private promptDeleteFrame(): void {
+    if (this.frames.length < 2) {
+      this.saveStatusMessage = "Can't delete the only frame"
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
     }
+    this.showSavePrompt = true
+    this.savePromptMode = "delete"
+    this.savePromptInput = this.frames[this.activeFrameIndex]!.frame.name
+    this.renderer.requestRender()
   }
 
-  private serializeLine(line: Line): SerializedLine {
-    return {
-      id: line.id,
-      x1: line.x1,
-      y1: line.y1,
-      x2: line.x2,
-      y2: line.y2,
-      bold: line.bold,
-      zIndex: line.zIndex,
-      strokeColor: this.serializeColor(line.strokeColor),
-      fillColor: this.serializeColor(line.fillColor),
+  // New frames start empty and inherit the current page size
+  private createFrame(input: string): void {
+    const name = input.trim()
+    if (name === "" || this.frames.some(f => f.frame.name === name)) {
+      this.saveStatusMessage = name === "" ? "Frame name can't be empty" : `Frame ${name} already exists`
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
     }
+
+    const frame = sceneToFrame({ textBoxes: [], rectangles: [], lines: [], freehands: [] }, name)
+    frame.page = this.page
+    this.frames.push(this.toStoredFrame(frame))
+    this.switchFrame(this.frames.length - 1)
   }
 
-  private deserializeLine(line: SerializedLine): Line {
-    return {
-      id: line.id,
-      x1: line.x1,
-      y1: line.y1,
-      x2: line.x2,
-      y2: line.y2,
-      bold: line.bold,
-      zIndex: line.zIndex,
-      strokeColor: this.deserializeColor(line.strokeColor),
-      fillColor: this.deserializeColor(line.fillColor),
+  private renameFrame(input: string): void {
+    const name = input.trim()
+    if (name === "") {
+      this.saveStatusMessage = "Frame name can't be empty"
+    } else if (this.isFrameNameTaken(name)) {
+      this.saveStatusMessage = `Frame ${name} already exists`
+    } else {
+      this.frames[this.activeFrameIndex]!.frame.name = name
+      this.saveStatusMessage = `Frame renamed to ${name}`
     }
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
   }
 
-  private serializeFreehand(freehand: Freehand): SerializedFreehand {
-    return {
-      id: freehand.id,
-      points: freehand.points.map(p => ({ x: p.x, y: p.y })),
-      bold: freehand.bold,
-      zIndex: freehand.zIndex,
-      strokeColor: this.serializeColor(freehand.strokeColor),
+  // A design always keeps at least one frame
+  private deleteFrame(input: string): void {
+    const name = input.trim()
+    const index = this.frames.findIndex(f => f.frame.name === name)
+    if (index === -1) {
+      this.saveStatusMessage = `No frame named ${name}`
+    } else if (this.frames.length < 2) {
+      this.saveStatusMessage = "Can't delete the only frame"
+    } else {
+      if (index === this.activeFrameIndex) {
+        // Finish whatever is in progress before the frame's objects are dropped
+        this.setTool(this.currentTool)
+        this.frames.splice(index, 1)
+        this.restoreFrame(Math.min(index, this.frames.length - 1))
+      } else {
+        this.frames.splice(index, 1)
+        if (index < this.activeFrameIndex) this.activeFrameIndex--
+      }
+      this.saveStatusMessage = `Frame ${name} deleted`
     }
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
   }
 
-  private deserializeFreehand(freehand: SerializedFreehand): Freehand {
+  // ==================== File Save/Load ====================
+
+  private toFileData(): TigmaFile {
+    this.storeActiveFrame()
     return {
-      id: freehand.id,
-      points: freehand.points.map(p => ({ x: p.x, y: p.y })),
-      bold: freehand.bold,
-      zIndex: freehand.zIndex,
-      strokeColor: this.deserializeColor(freehand.strokeColor),
+      version: FILE_VERSION,
+      frames: this.frames.map(f => f.frame),
     }
   }
 
-  private toFileData(): TigmaFile {
+  private toFrameData(): TigmaFrame {
     return {
-      version: 1,
-      textBoxes: this.textBoxes.map(b => this.serializeTextBox(b)),
-      rectangles: this.rectangles.map(r => this.serializeRectangle(r)),
-      lines: this.lines.map(l => this.serializeLine(l)),
-      freehands: this.freehands.map(f => this.serializeFreehand(f)),
+      name: this.frames[this.activeFrameIndex]!.frame.name,
+      textBoxes: this.textBoxes.map(b => serializeTextBox(b)),
+      rectangles: this.rectangles.map(r => serializeRectangle(r)),
+      lines: this.lines.map(l => serializeLine(l)),
+      freehands: this.freehands.map(f => serializeFreehand(f)),
       nextTextBoxId: this.nextTextBoxId,
       nextRectId: this.nextRectId,
       nextLineId: this.nextLineId,
       nextFreehandId: this.nextFreehandId,
+      nextGroupId: this.nextGroupId,
       nextZIndex: this.nextZIndex,
+      page: this.page,
     }
   }
 
   private loadFromFileData(data: TigmaFile): void {
-    this.textBoxes = data.textBoxes.map(b => this.deserializeTextBox(b))
-    this.rectangles = data.rectangles.map(r => this.deserializeRectangle(r))
-    this.lines = data.lines.map(l => this.deserializeLine(l))
-    this.freehands = (data.freehands ?? []).map(f => this.deserializeFreehand(f))
-    this.nextTextBoxId = data.nextTextBoxId
-    this.nextRectId = data.nextRectId
-    this.nextLineId = data.nextLineId
-    this.nextFreehandId = data.nextFreehandId ?? 1
-    this.nextZIndex = data.nextZIndex
-
-    // Reset UI state
-    this.activeTextBoxId = null
-    this.hoveredTextBoxId = null
-    this.hoveredRectId = null
-    this.hoveredLineId = null
-    this.hoveredFreehandId = null
-    this.clearSelection()
-    this.historyStack = []
-    this.redoStack = []
-
-    this.renderer.requestRender()
+    this.frames = data.frames.map(frame => this.toStoredFrame(frame))
+    this.restoreFrame(0)
   }
 
   public loadFile(filePath: string): boolean {
     try {
       const absolutePath = path.resolve(filePath)
-      const content = fs.readFileSync(absolutePath, "utf-8")
-      const data = JSON.parse(content) as TigmaFile
-      
-      if (data.version !== 1) {
-        console.error(`Unsupported file version: ${data.version}`)
-        return false
-      }
-      
+      const issues: FileIssue[] = []
+      const data = loadDesignFile(absolutePath, issues)
       this.loadFromFileData(data)
-      this.currentFilePath = absolutePath
+      if (issues.length > 0) {
+        for (const issue of issues) console.error(`Warning: ${formatFileIssue(issue)}`)
+        this.saveStatusMessage = `Loaded with ${issues.length} problem(s), invalid parts skipped`
+        this.saveStatusTimeout = Date.now() + 5000
+      }
+      if (isImportPath(absolutePath)) {
+        // Never overwrite the imported source - saving asks for a new .tigma name
+        this.currentFilePath = null
+        this.defaultFileName = `${path.basename(absolutePath, path.extname(absolutePath))}.tigma`
+      } else {
+        this.currentFilePath = absolutePath
+      }
       return true
     } catch (err) {
       console.error(`Failed to load file: ${err}`)
@@ -870,11 +3671,51 @@ class CanvasApp {
     } else {
       // Show prompt to ask for filename
       this.showSavePrompt = true
-      this.savePromptInput = "design.tigma"
+      this.savePromptMode = "save"
+      this.savePromptInput = this.defaultFileName
       this.renderer.requestRender()
     }
   }
 
+  private exportFile(): void {
+    // Suggest a .txt next to the current design
+    const baseName = this.currentFilePath
+      ? path.basename(this.currentFilePath, path.extname(this.currentFilePath))
+      : "design"
+    this.showSavePrompt = true
+    this.savePromptMode = "export"
+    this.savePromptInput = `${baseName}.txt`
+    this.renderer.requestRender()
+  }
+
+  private editPageSize(): void {
+    this.showSavePrompt = true
+    this.savePromptMode = "page"
+    const page = this.page ?? { width: 80, height: 24 }
+    this.savePromptInput = `${page.width}x${page.height}`
+    this.renderer.requestRender()
+  }
+
+  // Accepts "WxH" (e.g. 80x24); an empty value removes the page
+  private setPageSize(input: string): void {
+    const trimmed = input.trim()
+    const match = /^(\d+)\s*[x×]\s*(\d+)$/i.exec(trimmed)
+    const width = match ? Number(match[1]) : 0
+    const height = match ? Number(match[2]) : 0
+
+    if (trimmed === "") {
+      this.page = null
+      this.saveStatusMessage = "Page removed"
+    } else if (width > 0 && height > 0) {
+      this.page = { width, height }
+      this.saveStatusMessage = `Page set to ${width}x${height}`
+    } else {
+      this.saveStatusMessage = `Invalid page size: ${trimmed}`
+    }
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
   private doSaveFile(filename: string): void {
     try {
       const filePath = path.resolve(filename)
@@ -891,6 +3732,21 @@ class CanvasApp {
     }
   }
 
+  private doExportFile(filename: string): void {
+    try {
+      const filePath = path.resolve(filename)
+      const format = getExportFormatForPath(filePath)
+      fs.writeFileSync(filePath, EXPORT_FORMATS[format](this.getScene(), { colorDepth: "truecolor", page: this.page }))
+      this.saveStatusMessage = `Exported to ${path.basename(filePath)}`
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+    } catch (err) {
+      this.saveStatusMessage = `Export failed: ${err}`
+      this.saveStatusTimeout = Date.now() + 3000
+      this.renderer.requestRender()
+    }
+  }
+
   private closeSavePrompt(): void {
     this.showSavePrompt = false
     this.savePromptInput = ""
@@ -911,9 +3767,31 @@ class CanvasApp {
     }
 
     if (key.name === "return") {
-      const filename = this.savePromptInput.trim() || "design.tigma"
-      this.closeSavePrompt()
-      this.doSaveFile(filename)
+      if (this.savePromptMode === "page") {
+        const input = this.savePromptInput
+        this.closeSavePrompt()
+        this.setPageSize(input)
+      } else if (this.savePromptMode === "frame") {
+        const input = this.savePromptInput
+        this.closeSavePrompt()
+        this.createFrame(input)
+      } else if (this.savePromptMode === "rename") {
+        const input = this.savePromptInput
+        this.closeSavePrompt()
+        this.renameFrame(input)
+      } else if (this.savePromptMode === "delete") {
+        const input = this.savePromptInput
+        this.closeSavePrompt()
+        this.deleteFrame(input)
+      } else if (this.savePromptMode === "export") {
+        const filename = this.savePromptInput.trim() || "design.txt"
+        this.closeSavePrompt()
+        this.doExportFile(filename)
+      } else {
+        const filename = this.savePromptInput.trim() || this.defaultFileName
+        this.closeSavePrompt()
+        this.doSaveFile(filename)
+      }
       return true
     }
 
@@ -957,6 +3835,61 @@ class CanvasApp {
     return this.selectedTextBoxIds.size + this.selectedRectIds.size + this.selectedLineIds.size + this.selectedFreehandIds.size
   }
 
+  // Hidden and locked objects ignore the mouse on the canvas
+  private isEditable(obj: { hidden: boolean; locked: boolean }): boolean {
+    return !obj.hidden && !obj.locked
+  }
+
+  // The selection set an object's id belongs in
+  private getSelectionSet(item: SceneItem): Set<number> {
+    if (item.type === "text") return this.selectedTextBoxIds
+    if (item.type === "rect") return this.selectedRectIds
+    if (item.type === "line") return this.selectedLineIds
+    return this.selectedFreehandIds
+  }
+
+  private isItemSelected(item: SceneItem): boolean {
+    return this.getSelectionSet(item).has(item.obj.id)
+  }
+
+  private selectItem(item: SceneItem, addToSelection: boolean): void {
+    if (item.type === "text") this.selectTextBox(item.obj.id, addToSelection)
+    else if (item.type === "rect") this.selectRect(item.obj.id, addToSelection)
+    else if (item.type === "line") this.selectLine(item.obj.id, addToSelection)
+    else this.selectFreehand(item.obj.id, addToSelection)
+  }
+
+  // Deselects the object along with the rest of its group
+  private deselectItem(item: SceneItem): void {
+    const groupId = item.obj.groups[0]
+    for (const other of getSceneItems(this.getScene())) {
+      if (other.obj === item.obj || (groupId !== undefined && other.obj.groups[0] === groupId)) {
+        this.getSelectionSet(other).delete(other.obj.id)
+      }
+    }
+  }
+
+  // Selecting part of a group selects the whole outermost group
+  private expandSelectionToGroups(): void {
+    const items = getSceneItems(this.getScene())
+    const groupIds = new Set(items.filter(item => this.isItemSelected(item)).flatMap(item => item.obj.groups.slice(0, 1)))
+    if (groupIds.size === 0) return
+    for (const item of items) {
+      if (this.isEditable(item.obj) && groupIds.has(item.obj.groups[0]!)) {
+        this.getSelectionSet(item).add(item.obj.id)
+      }
+    }
+  }
+
+  // Number of independent things selected: outermost groups, plus objects outside any group
+  private countSelectedUnits(): number {
+    const units = new Set<number | object>()
+    for (const item of getSceneItems(this.getScene())) {
+      if (this.isItemSelected(item)) units.add(item.obj.groups[0] ?? item.obj)
+    }
+    return units.size
+  }
+
   private isTextBoxSelected(id: number): boolean {
     return this.selectedTextBoxIds.has(id)
   }
@@ -978,6 +3911,7 @@ class CanvasApp {
       this.clearSelection()
     }
     this.selectedTextBoxIds.add(id)
+    this.expandSelectionToGroups()
   }
 
   private selectRect(id: number, addToSelection: boolean): void {
@@ -985,6 +3919,7 @@ class CanvasApp {
       this.clearSelection()
     }
     this.selectedRectIds.add(id)
+    this.expandSelectionToGroups()
   }
 
   private selectLine(id: number, addToSelection: boolean): void {
@@ -992,6 +3927,7 @@ class CanvasApp {
       this.clearSelection()
     }
     this.selectedLineIds.add(id)
+    this.expandSelectionToGroups()
   }
 
   private selectFreehand(id: number, addToSelection: boolean): void {
@@ -999,6 +3935,7 @@ class CanvasApp {
       this.clearSelection()
     }
     this.selectedFreehandIds.add(id)
+    this.expandSelectionToGroups()
   }
 
   private moveSelection(dx: number, dy: number): void {
@@ -1024,10 +3961,8 @@ class CanvasApp {
     for (const id of this.selectedLineIds) {
       const line = this.lines.find(l => l.id === id)
       if (line) {
-        line.x1 += dx
-        line.y1 += dy
-        line.x2 += dx
-        line.y2 += dy
+        translateLine(line, dx, dy)
+        this.detachMovedLine(line)
       }
     }
     // Move all selected freehands
@@ -1040,21 +3975,433 @@ class CanvasApp {
         }
       }
     }
+    this.rerouteConnectors()
+    this.renderer.requestRender()
+  }
+
+  // ==================== Alignment Guides ====================
+
+  // Selected objects and everything else, as separate scenes
+  private partitionScene(): { selected: Scene; others: Scene } {
+    return {
+      selected: {
+        textBoxes: this.textBoxes.filter(b => this.isTextBoxSelected(b.id)),
+        rectangles: this.rectangles.filter(r => this.isRectSelected(r.id)),
+        lines: this.lines.filter(l => this.isLineSelected(l.id)),
+        freehands: this.freehands.filter(f => this.isFreehandSelected(f.id)),
+      },
+      others: getVisibleScene({
+        textBoxes: this.textBoxes.filter(b => !this.isTextBoxSelected(b.id)),
+        rectangles: this.rectangles.filter(r => !this.isRectSelected(r.id)),
+        lines: this.lines.filter(l => !this.isLineSelected(l.id)),
+        freehands: this.freehands.filter(f => !this.isFreehandSelected(f.id)),
+      }),
+    }
+  }
+
+  // Adjust a drag offset so the selection's edges or center land on another object's edges or
+  // center when within SNAP_DISTANCE, and record the guides for every resulting alignment
+  private snapDragOffset(dx: number, dy: number, disabled: boolean): { dx: number; dy: number } {
+    this.alignmentGuides = []
+    const { selected, others } = this.partitionScene()
+    const current = getSceneBounds(selected)
+    if (!current || disabled) return { dx, dy }
+
+    // Where the selection was when the drag started
+    const origin: Bounds = {
+      x1: current.x1 - this.dragAppliedX,
+      y1: current.y1 - this.dragAppliedY,
+      x2: current.x2 - this.dragAppliedX,
+      y2: current.y2 - this.dragAppliedY,
+    }
+    const targets = getSceneObjectBounds(others)
+    const anchors = (a: number, b: number) => [a, (a + b) / 2, b]
+
+    // Smallest whole-cell adjustment that aligns any anchor pair on one axis
+    const snapAxis = (offset: number, start: number, end: number, targetAnchors: number[][]): number => {
+      let best: number | null = null
+      for (const moving of anchors(start + offset, end + offset)) {
+        for (const target of targetAnchors.flat()) {
+          const diff = target - moving
+          if (!Number.isInteger(diff) || Math.abs(diff) > this.SNAP_DISTANCE) continue
+          if (best === null || Math.abs(diff) < Math.abs(best)) best = diff
+        }
+      }
+      return offset + (best ?? 0)
+    }
+
+    const snappedX = snapAxis(dx, origin.x1, origin.x2, targets.map(t => anchors(t.x1, t.x2)))
+    const snappedY = snapAxis(dy, origin.y1, origin.y2, targets.map(t => anchors(t.y1, t.y2)))
+
+    // Guides span the selection and every object it lines up with
+    const moved: Bounds = {
+      x1: origin.x1 + snappedX,
+      y1: origin.y1 + snappedY,
+      x2: origin.x2 + snappedX,
+      y2: origin.y2 + snappedY,
+    }
+    for (const vertical of [true, false]) {
+      const movingAnchors = vertical ? anchors(moved.x1, moved.x2) : anchors(moved.y1, moved.y2)
+      for (const position of new Set(movingAnchors)) {
+        const matches = targets.filter(t => (vertical ? anchors(t.x1, t.x2) : anchors(t.y1, t.y2)).includes(position))
+        if (matches.length === 0) continue
+        const extent = unionBounds([moved, ...matches])!
+        this.alignmentGuides.push({
+          vertical,
+          position: Math.floor(position),
+          from: vertical ? extent.y1 : extent.x1,
+          to: vertical ? extent.y2 : extent.x2,
+        })
+      }
+    }
+
+    return { dx: snappedX, dy: snappedY }
+  }
+
+  // ==================== Viewport ====================
+
+  // Size of the world area visible on screen
+  private getViewWidth(): number {
+    return Math.max(0, this.gridWidth - this.viewOffsetX - this.getLayersPanelWidth())
+  }
+
+  private getViewHeight(): number {
+    return Math.max(0, this.gridHeight - this.viewOffsetY)
+  }
+
+  private toggleRulers(): void {
+    this.showRulers = !this.showRulers
+    this.viewOffsetX = this.showRulers ? this.RULER_WIDTH : 0
+    this.viewOffsetY = this.showRulers ? 1 : 0
+    this.renderer.requestRender()
+  }
+
+  private panBy(dx: number, dy: number): void {
+    this.viewportX += dx
+    this.viewportY += dy
+    // The mouse stays put on screen, so it now points at a different world position
+    this.lastMouseX += dx
+    this.lastMouseY += dy
+    this.updateHover(this.lastMouseX, this.lastMouseY)
+    this.renderer.requestRender()
+  }
+
+  private handleScrollPan(event: MouseEvent): void {
+    const direction = event.scroll?.direction
+    if (!direction) return
+
+    // Shift turns vertical wheel movement into horizontal panning
+    const horizontal = direction === "left" || direction === "right" || event.modifiers.shift
+    const sign = direction === "up" || direction === "left" ? -1 : 1
+    if (horizontal) {
+      this.panBy(sign * this.SCROLL_PAN_STEP * 2, 0)
+    } else {
+      this.panBy(0, sign * this.SCROLL_PAN_STEP)
+    }
+  }
+
+  // Returns true if the event was consumed by panning
+  private handlePanDrag(event: MouseEvent): boolean {
+    if (event.type === "down" && this.isPanArmed) {
+      this.isPanning = true
+      this.panStartX = event.x
+      this.panStartY = event.y
+      this.panOriginX = this.viewportX
+      this.panOriginY = this.viewportY
+      return true
+    }
+    if (!this.isPanning) return false
+
+    if (event.type === "drag") {
+      // Content follows the mouse, so the viewport moves the opposite way
+      this.viewportX = this.panOriginX - (event.x - this.panStartX)
+      this.viewportY = this.panOriginY - (event.y - this.panStartY)
+      this.renderer.requestRender()
+    } else if (event.type === "up" || event.type === "drag-end") {
+      this.isPanning = false
+      this.isPanArmed = false
+      this.renderer.requestRender()
+    }
+    return true
+  }
+
+  // ==================== Minimap ====================
+
+  private toggleMinimap(): void {
+    this.showMinimap = !this.showMinimap
+    this.renderer.requestRender()
+  }
+
+  // Fit the design, the page and the current viewport into the minimap area
+  private getMinimapLayout(): MinimapLayout | null {
+    const width = this.MINIMAP_WIDTH
+    const height = this.MINIMAP_HEIGHT
+    // Leave room for the border, and never cover most of the canvas
+    if (this.getViewWidth() < width + 4 || this.gridHeight < height + 4) return null
+
+    const viewport: Bounds = {
+      x1: this.viewportX,
+      y1: this.viewportY,
+      x2: this.viewportX + this.getViewWidth() - 1,
+      y2: this.viewportY + this.getViewHeight() - 1,
+    }
+    const areas = [viewport]
+    const sceneBounds = getSceneBounds(this.getScene())
+    if (sceneBounds) areas.push(sceneBounds)
+    if (this.page) areas.push({ x1: 0, y1: 0, x2: this.page.width - 1, y2: this.page.height - 1 })
+
+    const x1 = Math.min(...areas.map(a => a.x1))
+    const y1 = Math.min(...areas.map(a => a.y1))
+    const x2 = Math.max(...areas.map(a => a.x2))
+    const y2 = Math.max(...areas.map(a => a.y2))
+    const scale = Math.max((x2 - x1 + 1) / width, (y2 - y1 + 1) / height)
+
+    return {
+      x: this.viewOffsetX + this.getViewWidth() - width - 1,
+      y: this.viewOffsetY + 1,
+      width,
+      height,
+      // Center the world area in the minimap along the axis with room to spare
+      worldX: Math.floor((x1 + x2 + 1) / 2 - (width * scale) / 2),
+      worldY: Math.floor((y1 + y2 + 1) / 2 - (height * scale) / 2),
+      scale,
+    }
+  }
+
+  // Returns true if the event was consumed by the minimap
+  private handleMinimapMouse(event: MouseEvent): boolean {
+    if (!this.showMinimap) return false
+
+    if (this.isDraggingMinimap && (event.type === "up" || event.type === "drag-end")) {
+      this.isDraggingMinimap = false
+      return true
+    }
+
+    const layout = this.getMinimapLayout()
+    if (!layout) return false
+
+    const inside = event.x >= layout.x && event.x < layout.x + layout.width &&
+      event.y >= layout.y && event.y < layout.y + layout.height
+    if (!(event.type === "down" && inside) && !(event.type === "drag" && this.isDraggingMinimap)) {
+      return false
+    }
+
+    // Center the viewport on the clicked world position
+    const mapX = Math.max(0, Math.min(layout.width - 1, event.x - layout.x))
+    const mapY = Math.max(0, Math.min(layout.height - 1, event.y - layout.y))
+    const worldX = layout.worldX + Math.floor((mapX + 0.5) * layout.scale)
+    const worldY = layout.worldY + Math.floor((mapY + 0.5) * layout.scale)
+    this.viewportX = worldX - Math.floor(this.getViewWidth() / 2)
+    this.viewportY = worldY - Math.floor(this.getViewHeight() / 2)
+    this.isDraggingMinimap = true
+    this.renderer.requestRender()
+    return true
+  }
+
+  // ==================== Layers Panel ====================
+
+  private toggleLayersPanel(): void {
+    this.showLayersPanel = !this.showLayersPanel
+    this.layerDragRow = null
+    this.renderer.requestRender()
+  }
+
+  private getLayersPanelWidth(): number {
+    return this.showLayersPanel ? this.LAYERS_PANEL_WIDTH : 0
+  }
+
+  // The list runs from below the title down to just above the color picker row
+  private getLayerListHeight(): number {
+    return Math.max(0, this.gridHeight - 2)
+  }
+
+  // Objects as listed in the panel, top layer first
+  private getLayerRows(): SceneItem[] {
+    return getSceneItems(this.getScene()).reverse()
+  }
+
+  // Object kind plus a preview: the text, the label inside a rectangle, or its size/position
+  private getLayerLabel(item: SceneItem): string {
+    const textOf = (box: TextBox) => box.chars.map(c => c.char).join("")
+    switch (item.type) {
+      case "text":
+        return `Text "${textOf(item.obj)}"`
+      case "rect": {
+        const bounds = normalizeRect(item.obj)
+        const label = this.textBoxes
+          .filter(b => b.chars.length > 0 && b.y > bounds.y1 && b.y < bounds.y2 && b.x > bounds.x1 && b.x < bounds.x2)
+          .sort((a, b) => a.y - b.y || a.x - b.x)[0]
+        return label ? `Rect "${textOf(label)}"` : `Rect ${this.formatSize(bounds)}`
+      }
+      case "line":
+        return `Line ${item.obj.x1},${item.obj.y1}→${item.obj.x2},${item.obj.y2}`
+      case "freehand":
+        return `Pencil ${item.obj.points.length} points`
+    }
+  }
+
+  private toggleLayerFlag(item: SceneItem, flag: "hidden" | "locked"): void {
+    this.saveSnapshot()
+    item.obj[flag] = !item.obj[flag]
+    if (item.obj[flag]) {
+      this.deselectItem(item)
+      this.hoveredTextBoxId = null
+      this.hoveredRectId = null
+      this.hoveredLineId = null
+      this.hoveredFreehandId = null
+    }
+    this.renderer.requestRender()
+  }
+
+  // Move the object at list row `from` to row `to`, reusing the existing zIndex values
+  private reorderLayer(from: number, to: number): void {
+    const rows = this.getLayerRows()
+    this.saveSnapshot()
+    const [moved] = rows.splice(from, 1)
+    rows.splice(to, 0, moved!)
+    this.applyLayerOrder(rows.reverse())
+    this.renderer.requestRender()
+  }
+
+  // Returns true if the event was consumed by the layers panel
+  private handleLayersPanelMouse(event: MouseEvent): boolean {
+    const rows = this.getLayerRows()
+
+    if (this.layerDragRow !== null && (event.type === "drag" || event.type === "up" || event.type === "drag-end")) {
+      const row = event.y - 1 + this.layersScroll
+      this.layerDropRow = Math.max(0, Math.min(rows.length - 1, row))
+      if (event.type !== "drag") {
+        const from = this.layerDragRow
+        this.layerDragRow = null
+        if (this.layerDropRow !== from) this.reorderLayer(from, this.layerDropRow)
+      }
+      this.renderer.requestRender()
+      return true
+    }
+
+    const panelX = this.gridWidth - this.getLayersPanelWidth()
+    if (!this.showLayersPanel || event.x < panelX || event.y >= this.gridHeight - 1) return false
+
+    if (event.type === "scroll") {
+      const sign = event.scroll?.direction === "up" ? -1 : 1
+      this.layersScroll = Math.max(0, this.layersScroll + sign * this.SCROLL_PAN_STEP)
+      this.renderer.requestRender()
+      return true
+    }
+    // Drags from the canvas may pass over the panel
+    if (event.type !== "down") return event.type === "move"
+
+    const index = event.y - 1 + this.layersScroll
+    const item = rows[index]
+    if (event.y === 0 || !item) return true
+
+    if (this.activeTextBoxId !== null) {
+      this.commitActiveTextBox()
+    }
+
+    // Columns: border, space, visibility, space, lock, space, label
+    const column = event.x - panelX
+    if (column === 2) {
+      this.toggleLayerFlag(item, "hidden")
+      return true
+    }
+    if (column === 4) {
+      this.toggleLayerFlag(item, "locked")
+      return true
+    }
+
+    if (this.isEditable(item.obj)) {
+      if (this.currentTool !== "move") this.setTool("move")
+      this.selectItem(item, event.modifiers.shift)
+    } else {
+      this.saveStatusMessage = item.obj.hidden ? "Layer is hidden" : "Layer is locked"
+      this.saveStatusTimeout = Date.now() + 2000
+    }
+    // Reordering works for every layer, hidden and locked ones included
+    this.layerDragRow = index
+    this.layerDropRow = index
     this.renderer.requestRender()
+    return true
+  }
+
+  private renderLayersPanel(buffer: OptimizedBuffer): void {
+    const panelX = this.gridWidth - this.LAYERS_PANEL_WIDTH
+    const listHeight = this.getLayerListHeight()
+    const rows = this.getLayerRows()
+    this.layersScroll = Math.max(0, Math.min(this.layersScroll, rows.length - listHeight))
+
+    const drawText = (x: number, y: number, text: string, fg: RGBA, bg: RGBA, maxWidth: number) => {
+      const chars = Array.from(text)
+      const fitted = chars.length > maxWidth ? [...chars.slice(0, maxWidth - 1), "…"] : chars
+      fitted.forEach((char, i) => buffer.setCell(x + i, y, char, fg, bg, 0))
+    }
+
+    for (let y = 0; y <= listHeight; y++) {
+      buffer.setCell(panelX, y, "│", this.pageBorderColor, this.layersPanelBgColor, 0)
+      for (let x = panelX + 1; x < this.gridWidth; x++) {
+        buffer.setCell(x, y, " ", this.toolbarTextColor, this.layersPanelBgColor, 0)
+      }
+    }
+    drawText(panelX + 1, 0, ` Layers (${rows.length})`, this.toolbarActiveColor, this.layersPanelBgColor, this.LAYERS_PANEL_WIDTH - 1)
+
+    for (let i = 0; i < listHeight; i++) {
+      const index = i + this.layersScroll
+      const item = rows[index]
+      if (!item) break
+
+      let bg = this.layersPanelBgColor
+      if (this.layerDragRow !== null && index === this.layerDropRow) bg = this.guideBgColor
+      else if (this.isItemSelected(item)) bg = this.selectedBgColor
+      const fg = item.obj.hidden ? this.hiddenLayerColor : this.toolbarTextColor
+
+      const y = i + 1
+      for (let x = panelX + 1; x < this.gridWidth; x++) {
+        buffer.setCell(x, y, " ", fg, bg, 0)
+      }
+      buffer.setCell(panelX + 2, y, item.obj.hidden ? "○" : "◉", fg, bg, 0)
+      buffer.setCell(panelX + 4, y, item.obj.locked ? "▣" : "·", fg, bg, 0)
+      drawText(panelX + 6, y, this.getLayerLabel(item), fg, bg, this.LAYERS_PANEL_WIDTH - 7)
+    }
   }
 
   // ==================== Mouse Handling ====================
 
   private handleMouse(event: MouseEvent): void {
     if (event.y >= this.gridHeight) {
+      if (event.type === "down" && event.x >= this.frameLabelStartX && event.x < this.frameLabelEndX) {
+        this.cycleFrame(1)
+      } else if (event.type === "down" && event.x >= this.strokeStyleLabelStartX && event.x < this.strokeStyleLabelEndX) {
+        this.cycleStrokeStyle()
+      } else if (event.type === "down" && event.x >= this.lineModeLabelStartX && event.x < this.lineModeLabelEndX) {
+        this.toggleElbowMode()
+      } else if (event.type === "down" && this.markerPickerX >= 0) {
+        if (event.x === this.markerPickerX) this.cycleLineMarker("start")
+        else if (event.x === this.markerPickerX + 2) this.cycleLineMarker("end")
+      }
       return
     }
 
-    // Track mouse position for paste-at-cursor feature
-    this.lastMouseX = event.x
-    this.lastMouseY = event.y
+    // The layers panel has its own scrolling, clicks and drags
+    if (this.handleLayersPanelMouse(event)) {
+      return
+    }
 
-    // Check for color picker clicks first
+    if (event.type === "scroll") {
+      this.handleScrollPan(event)
+      return
+    }
+
+    // Space+drag pans instead of interacting with objects
+    if (this.handlePanDrag(event)) {
+      return
+    }
+
+    // Minimap clicks/drags jump the viewport
+    if (this.handleMinimapMouse(event)) {
+      return
+    }
+
+    // Check for color picker clicks first (the picker is fixed on screen)
     if (event.type === "down") {
       const colorPickerResult = this.handleColorPickerClick(event.x, event.y)
       if (colorPickerResult) {
@@ -1062,16 +4409,35 @@ class CanvasApp {
       }
     }
 
+    // Clicks and hovering on the rulers do nothing; drags may still pass over them
+    if ((event.type === "down" || event.type === "move") && (event.x < this.viewOffsetX || event.y < this.viewOffsetY)) {
+      return
+    }
+
+    // Everything below works in world coordinates
+    const mouseX = event.x - this.viewOffsetX + this.viewportX
+    const mouseY = event.y - this.viewOffsetY + this.viewportY
+
+    // Track mouse position for paste-at-cursor feature
+    this.lastMouseX = mouseX
+    this.lastMouseY = mouseY
+
     // Handle hover for all tools
     if (event.type === "move") {
-      this.updateHover(event.x, event.y)
+      // Between the clicks of an elbow line, the next segment follows the mouse
+      if (this.isDrawingLine) {
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
+      }
+      this.updateHover(mouseX, mouseY)
+      this.renderer.requestRender()  // Cursor position readout
       return
     }
 
     // Handle dragging (moving objects)
     if (event.type === "drag") {
       // Track if we've actually moved from the mouse down position
-      if (event.x !== this.mouseDownX || event.y !== this.mouseDownY) {
+      if (mouseX !== this.mouseDownX || mouseY !== this.mouseDownY) {
         this.hasDragged = true
       }
 
@@ -1082,35 +4448,34 @@ class CanvasApp {
       }
       
       if (this.isDraggingSelection) {
-        // Move all selected items
-        const dx = event.x - this.dragStartX
-        const dy = event.y - this.dragStartY
-        this.moveSelection(dx, dy)
-        this.dragStartX = event.x
-        this.dragStartY = event.y
+        // Move all selected items by the total drag offset, snapped to nearby objects (Alt: free move)
+        const snapped = this.snapDragOffset(mouseX - this.dragStartX, mouseY - this.dragStartY, event.modifiers.alt)
+        this.moveSelection(snapped.dx - this.dragAppliedX, snapped.dy - this.dragAppliedY)
+        this.dragAppliedX = snapped.dx
+        this.dragAppliedY = snapped.dy
+      } else if (this.draggedVertexIndex !== null) {
+        this.moveLineVertex(mouseX, mouseY)
       } else if (this.isResizingRect) {
         // Find the single selected rect for resizing
         const rectId = this.selectedRectIds.values().next().value
         if (rectId !== undefined) {
-          this.resizeRect(rectId, event.x, event.y)
+          this.resizeRect(rectId, mouseX, mouseY)
         }
       } else if (this.isDrawingRect || this.isDrawingLine || this.isSelecting) {
-        this.drawCursorX = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        this.drawCursorY = Math.max(0, Math.min(this.gridHeight - 1, event.y))
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
         this.renderer.requestRender()
       } else if (this.isDrawingFreehand) {
-        const x = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        const y = Math.max(0, Math.min(this.gridHeight - 1, event.y))
         const lastPoint = this.tempFreehandPoints[this.tempFreehandPoints.length - 1]
-        if (lastPoint && (lastPoint.x !== x || lastPoint.y !== y)) {
+        if (lastPoint && (lastPoint.x !== mouseX || lastPoint.y !== mouseY)) {
           // Use Bresenham interpolation to fill gaps between sample points
-          const interpolated = this.getLinePoints(lastPoint.x, lastPoint.y, x, y)
+          const interpolated = getLinePoints(lastPoint.x, lastPoint.y, mouseX, mouseY)
           // Skip the first point (it's the last point we already have)
           for (let i = 1; i < interpolated.length; i++) {
             this.tempFreehandPoints.push(interpolated[i]!)
           }
         } else if (!lastPoint) {
-          this.tempFreehandPoints.push({ x, y })
+          this.tempFreehandPoints.push({ x: mouseX, y: mouseY })
         }
         this.renderer.requestRender()
       }
@@ -1120,33 +4485,32 @@ class CanvasApp {
     // Handle drag end
     if (event.type === "up" || event.type === "drag-end") {
       if (this.isDrawingRect) {
-        this.drawCursorX = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        this.drawCursorY = Math.max(0, Math.min(this.gridHeight - 1, event.y))
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
         this.commitRectangle()
       }
       if (this.isDrawingLine) {
-        this.drawCursorX = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        this.drawCursorY = Math.max(0, Math.min(this.gridHeight - 1, event.y))
-        this.commitLine()
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
+        if (this.elbowMode) this.addElbowVertex()
+        else this.commitLine()
       }
       if (this.isDrawingFreehand) {
-        const x = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        const y = Math.max(0, Math.min(this.gridHeight - 1, event.y))
         const lastPoint = this.tempFreehandPoints[this.tempFreehandPoints.length - 1]
-        if (lastPoint && (lastPoint.x !== x || lastPoint.y !== y)) {
+        if (lastPoint && (lastPoint.x !== mouseX || lastPoint.y !== mouseY)) {
           // Use Bresenham interpolation for the final segment
-          const interpolated = this.getLinePoints(lastPoint.x, lastPoint.y, x, y)
+          const interpolated = getLinePoints(lastPoint.x, lastPoint.y, mouseX, mouseY)
           for (let i = 1; i < interpolated.length; i++) {
             this.tempFreehandPoints.push(interpolated[i]!)
           }
         } else if (!lastPoint) {
-          this.tempFreehandPoints.push({ x, y })
+          this.tempFreehandPoints.push({ x: mouseX, y: mouseY })
         }
         this.commitFreehand()
       }
       if (this.isSelecting) {
-        this.drawCursorX = Math.max(0, Math.min(this.gridWidth - 1, event.x))
-        this.drawCursorY = Math.max(0, Math.min(this.gridHeight - 1, event.y))
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
         this.commitSelection() // 后面会实现这个方法
       }
       
@@ -1156,7 +4520,7 @@ class CanvasApp {
         const textBox = this.textBoxes.find(b => b.id === textBoxId)
         if (textBox) {
           this.activeTextBoxId = textBox.id
-          const relativeX = event.x - textBox.x
+          const relativeX = mouseX - textBox.x
           this.textCursorPos = Math.min(relativeX, this.getTextLength(textBox))
           this.clearSelection()
           this.resetCursorBlink()
@@ -1165,8 +4529,12 @@ class CanvasApp {
       }
       
       this.isDraggingSelection = false
+      this.dragAppliedX = 0
+      this.dragAppliedY = 0
+      this.alignmentGuides = []
       this.isResizingRect = false
       this.resizeHandle = null
+      this.draggedVertexIndex = null
       this.isDraggingMouse = false
       this.clickedOnSelectedTextBox = false
       this.hasDragged = false
@@ -1183,11 +4551,11 @@ class CanvasApp {
         const activeBox = this.textBoxes.find(b => b.id === this.activeTextBoxId)
         if (activeBox) {
           const boxWidth = Math.max(1, this.getTextLength(activeBox))
-          const clickedOnActiveBox = event.x >= activeBox.x && event.x < activeBox.x + boxWidth && event.y === activeBox.y
+          const clickedOnActiveBox = mouseX >= activeBox.x && mouseX < activeBox.x + boxWidth && mouseY === activeBox.y
           
           if (clickedOnActiveBox) {
             // Move cursor within the text box
-            const relativeX = event.x - activeBox.x
+            const relativeX = mouseX - activeBox.x
             this.textCursorPos = Math.min(relativeX, this.getTextLength(activeBox))
             this.resetCursorBlink()
             this.renderer.requestRender()
@@ -1204,18 +4572,27 @@ class CanvasApp {
       // Move tool: select and move existing objects
       if (this.currentTool === "move") {
         // Track mouse down position for detecting clicks vs drags
-        this.mouseDownX = event.x
-        this.mouseDownY = event.y
+        this.mouseDownX = mouseX
+        this.mouseDownY = mouseY
         this.hasDragged = false
         this.clickedOnSelectedTextBox = false
         
         const shiftHeld = event.modifiers?.shift ?? false
         
+        // Vertices of a selected elbow line can be dragged (only for single selection)
+        const vertexIndex = this.getLineVertexAt(mouseX, mouseY)
+        if (vertexIndex !== null) {
+          this.saveSnapshot()
+          this.draggedVertexIndex = vertexIndex
+          this.isDraggingMouse = true
+          return
+        }
+
         // First check if clicking on a SELECTED rectangle's resize handle (only for single selection)
         if (this.selectedRectIds.size === 1 && !this.isMultiSelection()) {
           const rectId = this.selectedRectIds.values().next().value
           if (rectId !== undefined) {
-            const handle = this.getResizeHandleAt(rectId, event.x, event.y)
+            const handle = this.getResizeHandleAt(rectId, mouseX, mouseY)
             if (handle) {
               this.saveSnapshot()
               this.isResizingRect = true
@@ -1227,7 +4604,7 @@ class CanvasApp {
         }
 
         // Check if clicking on a text box
-        const clickedTextBox = this.getTextBoxAt(event.x, event.y)
+        const clickedTextBox = this.getTextBoxAt(mouseX, mouseY)
         if (clickedTextBox) {
           const alreadySelected = this.isTextBoxSelected(clickedTextBox.id)
           
@@ -1239,9 +4616,9 @@ class CanvasApp {
           if (shiftHeld) {
             // Toggle selection
             if (alreadySelected) {
-              this.selectedTextBoxIds.delete(clickedTextBox.id)
+              this.deselectItem({ type: "text", obj: clickedTextBox })
             } else {
-              this.selectedTextBoxIds.add(clickedTextBox.id)
+              this.selectTextBox(clickedTextBox.id, true)
             }
           } else if (!alreadySelected) {
             // Regular click on unselected - select only this
@@ -1251,24 +4628,24 @@ class CanvasApp {
           // Prepare for dragging all selected items
           this.saveSnapshot()
           this.isDraggingSelection = true
-          this.dragStartX = event.x
-          this.dragStartY = event.y
+          this.dragStartX = mouseX
+          this.dragStartY = mouseY
           this.isDraggingMouse = true
           this.renderer.requestRender()
           return
         }
 
         // Check if clicking on a rectangle
-        const clickedRect = this.getRectangleAt(event.x, event.y)
+        const clickedRect = this.getRectangleAt(mouseX, mouseY)
         if (clickedRect) {
           const alreadySelected = this.isRectSelected(clickedRect.id)
           
           if (shiftHeld) {
             // Toggle selection
             if (alreadySelected) {
-              this.selectedRectIds.delete(clickedRect.id)
+              this.deselectItem({ type: "rect", obj: clickedRect })
             } else {
-              this.selectedRectIds.add(clickedRect.id)
+              this.selectRect(clickedRect.id, true)
             }
           } else if (!alreadySelected) {
             // Regular click on unselected - select only this
@@ -1278,24 +4655,24 @@ class CanvasApp {
           // Prepare for dragging all selected items
           this.saveSnapshot()
           this.isDraggingSelection = true
-          this.dragStartX = event.x
-          this.dragStartY = event.y
+          this.dragStartX = mouseX
+          this.dragStartY = mouseY
           this.isDraggingMouse = true
           this.renderer.requestRender()
           return
         }
 
         // Check if clicking on a line
-        const clickedLine = this.getLineAt(event.x, event.y)
+        const clickedLine = this.getLineAt(mouseX, mouseY)
         if (clickedLine) {
           const alreadySelected = this.isLineSelected(clickedLine.id)
 
           if (shiftHeld) {
             // Toggle selection
             if (alreadySelected) {
-              this.selectedLineIds.delete(clickedLine.id)
+              this.deselectItem({ type: "line", obj: clickedLine })
             } else {
-              this.selectedLineIds.add(clickedLine.id)
+              this.selectLine(clickedLine.id, true)
             }
           } else if (!alreadySelected) {
             // Regular click on unselected - select only this
@@ -1305,24 +4682,24 @@ class CanvasApp {
           // Prepare for dragging all selected items
           this.saveSnapshot()
           this.isDraggingSelection = true
-          this.dragStartX = event.x
-          this.dragStartY = event.y
+          this.dragStartX = mouseX
+          this.dragStartY = mouseY
           this.isDraggingMouse = true
           this.renderer.requestRender()
           return
         }
 
         // Check if clicking on a freehand
-        const clickedFreehand = this.getFreehandAt(event.x, event.y)
+        const clickedFreehand = this.getFreehandAt(mouseX, mouseY)
         if (clickedFreehand) {
           const alreadySelected = this.isFreehandSelected(clickedFreehand.id)
 
           if (shiftHeld) {
             // Toggle selection
             if (alreadySelected) {
-              this.selectedFreehandIds.delete(clickedFreehand.id)
+              this.deselectItem({ type: "freehand", obj: clickedFreehand })
             } else {
-              this.selectedFreehandIds.add(clickedFreehand.id)
+              this.selectFreehand(clickedFreehand.id, true)
             }
           } else if (!alreadySelected) {
             // Regular click on unselected - select only this
@@ -1332,8 +4709,8 @@ class CanvasApp {
           // Prepare for dragging all selected items
           this.saveSnapshot()
           this.isDraggingSelection = true
-          this.dragStartX = event.x
-          this.dragStartY = event.y
+          this.dragStartX = mouseX
+          this.dragStartY = mouseY
           this.isDraggingMouse = true
           this.renderer.requestRender()
           return
@@ -1344,25 +4721,39 @@ class CanvasApp {
           this.clearSelection()
         }
         this.isSelectionPending = true
-        this.drawStartX = event.x
-        this.drawStartY = event.y
-        this.drawCursorX = event.x
-        this.drawCursorY = event.y
+        this.drawStartX = mouseX
+        this.drawStartY = mouseY
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
         this.renderer.requestRender()
         return
       }
 
+      // Next vertex of an elbow line; clicking the last one again finishes the line
+      if (this.isDrawingLine) {
+        const last = this.lineWaypoints[this.lineWaypoints.length - 1] ?? { x: this.drawStartX, y: this.drawStartY }
+        if (mouseX === last.x && mouseY === last.y) {
+          this.finishElbowLine()
+        } else {
+          this.isDraggingMouse = true
+          this.drawCursorX = mouseX
+          this.drawCursorY = mouseY
+          this.renderer.requestRender()
+        }
+        return
+      }
+
       // Drawing tools: create new objects (ignore existing objects)
       // Clear selection when using drawing tools
       this.clearSelection()
 
       if (this.currentTool === "text") {
         // Check if clicking on an existing text box to edit it
-        const clickedTextBox = this.getTextBoxAt(event.x, event.y)
+        const clickedTextBox = this.getTextBoxAt(mouseX, mouseY)
         if (clickedTextBox) {
           // Start editing this text box
           this.activeTextBoxId = clickedTextBox.id
-          const relativeX = event.x - clickedTextBox.x
+          const relativeX = mouseX - clickedTextBox.x
           this.textCursorPos = Math.min(relativeX, this.getTextLength(clickedTextBox))
           this.resetCursorBlink()
         } else {
@@ -1370,10 +4761,13 @@ class CanvasApp {
           this.saveSnapshot()
           const newBox: TextBox = {
             id: this.nextTextBoxId++,
-            x: event.x,
-            y: event.y,
+            x: mouseX,
+            y: mouseY,
             chars: [],
             zIndex: this.nextZIndex++,
+            hidden: false,
+            locked: false,
+            groups: [],
             strokeColor: this.currentStrokeColor,
             fillColor: null,  // Text always starts with transparent fill
           }
@@ -1386,23 +4780,25 @@ class CanvasApp {
         // Start drawing rectangle
         this.isDrawingRect = true
         this.isDraggingMouse = true
-        this.drawStartX = event.x
-        this.drawStartY = event.y
-        this.drawCursorX = event.x
-        this.drawCursorY = event.y
+        this.drawStartX = mouseX
+        this.drawStartY = mouseY
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
       } else if (this.currentTool === "line") {
         // Start drawing line
         this.isDrawingLine = true
         this.isDraggingMouse = true
-        this.drawStartX = event.x
-        this.drawStartY = event.y
-        this.drawCursorX = event.x
-        this.drawCursorY = event.y
+        this.isLineBindingDisabled = event.modifiers.alt
+        this.lineWaypoints = []
+        this.drawStartX = mouseX
+        this.drawStartY = mouseY
+        this.drawCursorX = mouseX
+        this.drawCursorY = mouseY
       } else if (this.currentTool === "freehand") {
         // Start drawing freehand
         this.isDrawingFreehand = true
         this.isDraggingMouse = true
-        this.tempFreehandPoints = [{ x: event.x, y: event.y }]
+        this.tempFreehandPoints = [{ x: mouseX, y: mouseY }]
       }
 
       this.renderer.requestRender()
@@ -1490,6 +4886,7 @@ class CanvasApp {
   private getTextBoxAt(x: number, y: number): TextBox | null {
     let found: TextBox | null = null
     for (const box of this.textBoxes) {
+      if (!this.isEditable(box)) continue
       const boxWidth = Math.max(1, this.getTextLength(box))
       if (x >= box.x && x < box.x + boxWidth && y === box.y) {
         if (!found || box.zIndex > found.zIndex) {
@@ -1515,9 +4912,6 @@ class CanvasApp {
     const box = this.textBoxes.find(b => b.id === id)
     if (!box) return
 
-    newX = Math.max(0, Math.min(this.gridWidth - Math.max(1, this.getTextLength(box)), newX))
-    newY = Math.max(0, Math.min(this.gridHeight - 1, newY))
-
     box.x = newX
     box.y = newY
     this.renderer.requestRender()
@@ -1540,7 +4934,7 @@ class CanvasApp {
   private getRectangleAt(x: number, y: number): Rectangle | null {
     let found: Rectangle | null = null
     for (const rect of this.rectangles) {
-      if (this.isOnRectBorder(x, y, rect)) {
+      if (this.isEditable(rect) && this.isOnRectBorder(x, y, rect)) {
         if (!found || rect.zIndex > found.zIndex) {
           found = rect
         }
@@ -1550,26 +4944,17 @@ class CanvasApp {
   }
 
   private isOnRectBorder(x: number, y: number, rect: Rectangle): boolean {
-    const { x1, y1, x2, y2 } = this.normalizeRect(rect)
+    const { x1, y1, x2, y2 } = normalizeRect(rect)
     const onTopOrBottom = (y === y1 || y === y2) && x >= x1 && x <= x2
     const onLeftOrRight = (x === x1 || x === x2) && y >= y1 && y <= y2
     return onTopOrBottom || onLeftOrRight
   }
 
-  private normalizeRect(rect: Rectangle): { x1: number; y1: number; x2: number; y2: number } {
-    return {
-      x1: Math.min(rect.x1, rect.x2),
-      y1: Math.min(rect.y1, rect.y2),
-      x2: Math.max(rect.x1, rect.x2),
-      y2: Math.max(rect.y1, rect.y2),
-    }
-  }
-
   private getResizeHandleAt(rectId: number, x: number, y: number): ResizeHandle {
     const rect = this.rectangles.find(r => r.id === rectId)
     if (!rect) return null
 
-    const { x1, y1, x2, y2 } = this.normalizeRect(rect)
+    const { x1, y1, x2, y2 } = normalizeRect(rect)
 
     if (x === x1 && y === y1) return "nw"
     if (x === x2 && y === y1) return "ne"
@@ -1590,18 +4975,16 @@ class CanvasApp {
     const rect = this.rectangles.find(r => r.id === id)
     if (!rect) return
 
-    const normalized = this.normalizeRect(rect)
+    const normalized = normalizeRect(rect)
     const width = normalized.x2 - normalized.x1
     const height = normalized.y2 - normalized.y1
 
-    newX = Math.max(0, Math.min(this.gridWidth - width - 1, newX))
-    newY = Math.max(0, Math.min(this.gridHeight - height - 1, newY))
-
     rect.x1 = newX
     rect.y1 = newY
     rect.x2 = newX + width
     rect.y2 = newY + height
 
+    this.rerouteConnectors()
     this.renderer.requestRender()
   }
 
@@ -1609,9 +4992,6 @@ class CanvasApp {
     const rect = this.rectangles.find(r => r.id === id)
     if (!rect || !this.resizeHandle) return
 
-    mouseX = Math.max(0, Math.min(this.gridWidth - 1, mouseX))
-    mouseY = Math.max(0, Math.min(this.gridHeight - 1, mouseY))
-
     switch (this.resizeHandle) {
       case "nw": rect.x1 = mouseX; rect.y1 = mouseY; break
       case "ne": rect.x2 = mouseX; rect.y1 = mouseY; break
@@ -1623,6 +5003,7 @@ class CanvasApp {
       case "e": rect.x2 = mouseX; break
     }
 
+    this.rerouteConnectors()
     this.renderer.requestRender()
   }
 
@@ -1639,8 +5020,12 @@ class CanvasApp {
       const rect: Rectangle = {
         id: this.nextRectId++,
         x1, y1, x2, y2,
+        strokeStyle: this.currentStrokeStyle,
         bold: this.boldMode,
         zIndex: this.nextZIndex++,
+        hidden: false,
+        locked: false,
+        groups: [],
         strokeColor: this.currentStrokeColor,
         fillColor: this.currentFillColor,
       }
@@ -1660,15 +5045,141 @@ class CanvasApp {
     if (this.hoveredRectId === id) {
       this.hoveredRectId = null
     }
+    this.rerouteConnectors()
     this.renderer.requestRender()
   }
 
   // ==================== Line Operations ====================
 
+  // Attachment for a line end at this point: the topmost visible rectangle whose border it's on
+  private getBindingAt(x: number, y: number): LineBinding | null {
+    let found: Rectangle | null = null
+    for (const rect of this.rectangles) {
+      if (!rect.hidden && this.isOnRectBorder(x, y, rect) && (!found || rect.zIndex > found.zIndex)) {
+        found = rect
+      }
+    }
+    return found ? { rectId: found.id, point: getBindingPointAt(found, x, y) } : null
+  }
+
+  // Lines drawn from or to a rectangle's border become connectors attached to it
+  private getDrawnLineBindings(): { startBinding: LineBinding | null; endBinding: LineBinding | null } {
+    if (this.isLineBindingDisabled) return { startBinding: null, endBinding: null }
+    return {
+      startBinding: this.getBindingAt(this.drawStartX, this.drawStartY),
+      endBinding: this.getBindingAt(this.drawCursorX, this.drawCursorY),
+    }
+  }
+
+  // A connector dragged away from its shapes lets go of every one that isn't moving with it
+  private detachMovedLine(line: Line): void {
+    if (line.startBinding && !this.selectedRectIds.has(line.startBinding.rectId)) line.startBinding = null
+    if (line.endBinding && !this.selectedRectIds.has(line.endBinding.rectId)) line.endBinding = null
+  }
+
+  // Elbow lines are drawn one vertex at a time: each click (or drag) adds a vertex, and clicking
+  // the last one again or pressing Enter ends the line there
+  private addElbowVertex(): void {
+    const last = this.lineWaypoints[this.lineWaypoints.length - 1] ?? { x: this.drawStartX, y: this.drawStartY }
+    if (this.drawCursorX !== last.x || this.drawCursorY !== last.y) {
+      this.lineWaypoints.push({ x: this.drawCursorX, y: this.drawCursorY })
+    }
+    this.renderer.requestRender()
+  }
+
+  private finishElbowLine(): void {
+    const end = this.lineWaypoints.pop()
+    if (end) {
+      this.drawCursorX = end.x
+      this.drawCursorY = end.y
+    }
+    this.commitLine()
+  }
+
+  // Switch new lines between straight and elbow routing, and the selected lines along with them
+  private toggleElbowMode(): void {
+    if (this.isDrawingLine) return
+    this.elbowMode = !this.elbowMode
+
+    const lines = this.lines.filter(l => this.selectedLineIds.has(l.id))
+    if (lines.length > 0) {
+      this.saveSnapshot()
+      for (const line of lines) {
+        line.elbow = this.elbowMode
+        // Straight lines have no vertices in between
+        if (!line.elbow) line.waypoints = []
+      }
+      this.rerouteConnectors()
+    }
+    this.saveStatusMessage = this.elbowMode ? "Elbow lines" : "Straight lines"
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
+  // The selected line, when it's the only selected object and an elbow line (its vertices can be dragged)
+  private getVertexEditLine(): Line | null {
+    if (this.selectedLineIds.size !== 1 || this.isMultiSelection()) return null
+    const line = this.lines.find(l => this.selectedLineIds.has(l.id))
+    return line && line.elbow ? line : null
+  }
+
+  private getLineVertexAt(x: number, y: number): number | null {
+    const line = this.getVertexEditLine()
+    if (!line) return null
+    const index = getLineVertices(line).findIndex(p => p.x === x && p.y === y)
+    return index === -1 ? null : index
+  }
+
+  // Ends dropped on a rectangle's border attach to it, like when drawing
+  private moveLineVertex(x: number, y: number): void {
+    const line = this.getVertexEditLine()
+    if (!line || this.draggedVertexIndex === null) return
+
+    const index = this.draggedVertexIndex
+    if (index === 0) {
+      line.x1 = x
+      line.y1 = y
+      line.startBinding = this.getBindingAt(x, y)
+    } else if (index === line.waypoints.length + 1) {
+      line.x2 = x
+      line.y2 = y
+      line.endBinding = this.getBindingAt(x, y)
+    } else {
+      line.waypoints[index - 1] = { x, y }
+    }
+    this.rerouteConnectors()
+    this.renderer.requestRender()
+  }
+
+  // Step to the next marker for the start or end of new lines, and set it on the selected lines
+  private cycleLineMarker(end: "start" | "end"): void {
+    const current = end === "start" ? this.currentStartMarker : this.currentEndMarker
+    const marker = LINE_MARKERS[(LINE_MARKERS.indexOf(current) + 1) % LINE_MARKERS.length]!
+    if (end === "start") this.currentStartMarker = marker
+    else this.currentEndMarker = marker
+
+    const lines = this.lines.filter(l => this.selectedLineIds.has(l.id))
+    if (lines.length > 0) {
+      this.saveSnapshot()
+      for (const line of lines) {
+        if (end === "start") line.startMarker = marker
+        else line.endMarker = marker
+      }
+    }
+    this.saveStatusMessage = `${end === "start" ? "Start" : "End"} marker: ${marker}`
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
+  // Bring connectors back to their rectangles after shapes moved, were resized or deleted
+  private rerouteConnectors(): void {
+    routeConnectors(this.lines, this.rectangles)
+  }
+
   private getLineAt(x: number, y: number): Line | null {
     let found: Line | null = null
     for (const line of this.lines) {
-      if (this.isOnLine(x, y, line)) {
+      if (this.isEditable(line) && this.isOnLine(x, y, line)) {
         if (!found || line.zIndex > found.zIndex) {
           found = line
         }
@@ -1678,7 +5189,11 @@ class CanvasApp {
   }
 
   private isOnLine(x: number, y: number, line: Line): boolean {
-    const { x1, y1, x2, y2 } = this.normalizeLine(line)
+    if (line.elbow) {
+      return getLineCells(line).some(p => p.x === x && p.y === y)
+    }
+
+    const { x1, y1, x2, y2 } = normalizeLine(line)
     
     // Check if point is on the line segment
     if (x1 === x2) {
@@ -1689,67 +5204,22 @@ class CanvasApp {
       return y === y1 && x >= x1 && x <= x2
     } else {
       // Diagonal line - check if point is on any of the cells the line passes through
-      const points = this.getLinePoints(x1, y1, x2, y2)
+      const points = getLinePoints(x1, y1, x2, y2)
       return points.some(p => p.x === x && p.y === y)
     }
   }
 
-  private normalizeLine(line: Line): { x1: number; y1: number; x2: number; y2: number } {
-    // For lines, we keep the original direction but ensure consistent ordering for bounds
-    return {
-      x1: Math.min(line.x1, line.x2),
-      y1: Math.min(line.y1, line.y2),
-      x2: Math.max(line.x1, line.x2),
-      y2: Math.max(line.y1, line.y2),
-    }
-  }
-
-  private getLinePoints(x1: number, y1: number, x2: number, y2: number): { x: number; y: number }[] {
-    // Bresenham's line algorithm
-    const points: { x: number; y: number }[] = []
-    const dx = Math.abs(x2 - x1)
-    const dy = Math.abs(y2 - y1)
-    const sx = x1 < x2 ? 1 : -1
-    const sy = y1 < y2 ? 1 : -1
-    let err = dx - dy
-    let x = x1
-    let y = y1
-
-    while (true) {
-      points.push({ x, y })
-      if (x === x2 && y === y2) break
-      const e2 = 2 * err
-      if (e2 > -dy) {
-        err -= dy
-        x += sx
-      }
-      if (e2 < dx) {
-        err += dx
-        y += sy
-      }
-    }
-    return points
-  }
-
   private moveLine(id: number, newX: number, newY: number): void {
     const line = this.lines.find(l => l.id === id)
     if (!line) return
 
-    const normalized = this.normalizeLine(line)
-    const width = normalized.x2 - normalized.x1
-    const height = normalized.y2 - normalized.y1
-
-    newX = Math.max(0, Math.min(this.gridWidth - width - 1, newX))
-    newY = Math.max(0, Math.min(this.gridHeight - height - 1, newY))
-
+    const normalized = normalizeLine(line)
     const dx = newX - normalized.x1
     const dy = newY - normalized.y1
 
-    line.x1 += dx
-    line.y1 += dy
-    line.x2 += dx
-    line.y2 += dy
-
+    translateLine(line, dx, dy)
+    this.detachMovedLine(line)
+    this.rerouteConnectors()
     this.renderer.requestRender()
   }
 
@@ -1761,18 +5231,31 @@ class CanvasApp {
     const x2 = this.drawCursorX
     const y2 = this.drawCursorY
 
+    const waypoints = this.elbowMode ? this.lineWaypoints : []
+    this.lineWaypoints = []
+
     // Only create line if it has some length
-    if (x1 !== x2 || y1 !== y2) {
+    if (x1 !== x2 || y1 !== y2 || waypoints.length > 0) {
       this.saveSnapshot()
       const line: Line = {
         id: this.nextLineId++,
         x1, y1, x2, y2,
+        elbow: this.elbowMode,
+        waypoints,
+        ...this.getDrawnLineBindings(),
+        startMarker: this.currentStartMarker,
+        endMarker: this.currentEndMarker,
+        strokeStyle: this.currentStrokeStyle,
         bold: this.boldMode,
         zIndex: this.nextZIndex++,
+        hidden: false,
+        locked: false,
+        groups: [],
         strokeColor: this.currentStrokeColor,
         fillColor: null,  // Lines don't use fill
       }
       this.lines.push(line)
+      routeConnectors([line], this.rectangles)
       // Select the newly created line
       this.selectLine(line.id, false)
     }
@@ -1794,7 +5277,8 @@ class CanvasApp {
       return !(x2 < selX1 || x1 > selX2 || y2 < selY1 || y1 > selY2)
     }
 
-    for (const box of this.textBoxes) {
+    // Hidden and locked objects can't be picked up by the selection box
+    for (const box of this.textBoxes.filter(b => this.isEditable(b))) {
       const width = Math.max(1, this.getTextLength(box))
       const bx1 = box.x
       const bx2 = box.x + width - 1
@@ -1806,22 +5290,22 @@ class CanvasApp {
       }
     }
 
-    for (const rect of this.rectangles) {
-      const { x1, y1, x2, y2 } = this.normalizeRect(rect)
+    for (const rect of this.rectangles.filter(r => this.isEditable(r))) {
+      const { x1, y1, x2, y2 } = normalizeRect(rect)
       if (isIntersecting(x1, y1, x2, y2)) {
         this.selectRect(rect.id, true)
       }
     }
 
-    for (const line of this.lines) {
-      const { x1, y1, x2, y2 } = this.normalizeLine(line)
+    for (const line of this.lines.filter(l => this.isEditable(l))) {
+      const { x1, y1, x2, y2 } = normalizeLine(line)
       if (isIntersecting(x1, y1, x2, y2)) {
         this.selectLine(line.id, true)
       }
     }
 
-    for (const freehand of this.freehands) {
-      const bounds = this.getFreehandBounds(freehand)
+    for (const freehand of this.freehands.filter(f => this.isEditable(f))) {
+      const bounds = getFreehandBounds(freehand)
       if (isIntersecting(bounds.x1, bounds.y1, bounds.x2, bounds.y2)) {
         this.selectFreehand(freehand.id, true)
       }
@@ -1844,7 +5328,7 @@ class CanvasApp {
   private getFreehandAt(x: number, y: number): Freehand | null {
     let found: Freehand | null = null
     for (const freehand of this.freehands) {
-      if (this.isOnFreehand(x, y, freehand)) {
+      if (this.isEditable(freehand) && this.isOnFreehand(x, y, freehand)) {
         if (!found || freehand.zIndex > found.zIndex) {
           found = freehand
         }
@@ -1857,23 +5341,6 @@ class CanvasApp {
     return freehand.points.some(p => p.x === x && p.y === y)
   }
 
-  private getFreehandBounds(freehand: Freehand): { x1: number; y1: number; x2: number; y2: number } {
-    if (freehand.points.length === 0) {
-      return { x1: 0, y1: 0, x2: 0, y2: 0 }
-    }
-    let minX = freehand.points[0]!.x
-    let maxX = freehand.points[0]!.x
-    let minY = freehand.points[0]!.y
-    let maxY = freehand.points[0]!.y
-    for (const p of freehand.points) {
-      if (p.x < minX) minX = p.x
-      if (p.x > maxX) maxX = p.x
-      if (p.y < minY) minY = p.y
-      if (p.y > maxY) maxY = p.y
-    }
-    return { x1: minX, y1: minY, x2: maxX, y2: maxY }
-  }
-
   private commitFreehand(): void {
     if (!this.isDrawingFreehand) return
 
@@ -1885,6 +5352,9 @@ class CanvasApp {
         points: [...this.tempFreehandPoints],
         bold: this.boldMode,
         zIndex: this.nextZIndex++,
+        hidden: false,
+        locked: false,
+        groups: [],
         strokeColor: this.currentStrokeColor,
       }
       this.freehands.push(freehand)
@@ -1909,156 +5379,209 @@ class CanvasApp {
 
   // ==================== Layer Management ====================
 
-  private getSelectedObject(): { type: "text" | "rect" | "line" | "freehand"; zIndex: number; id: number } | null {
-    // Only return a single selected object (for layer reordering - only works with single selection)
-    if (this.selectedTextBoxIds.size === 1) {
-      const id = this.selectedTextBoxIds.values().next().value
-      const box = this.textBoxes.find(b => b.id === id)
-      if (box) return { type: "text", zIndex: box.zIndex, id: box.id }
-    }
-    if (this.selectedRectIds.size === 1) {
-      const id = this.selectedRectIds.values().next().value
-      const rect = this.rectangles.find(r => r.id === id)
-      if (rect) return { type: "rect", zIndex: rect.zIndex, id: rect.id }
-    }
-    if (this.selectedLineIds.size === 1) {
-      const id = this.selectedLineIds.values().next().value
-      const line = this.lines.find(l => l.id === id)
-      if (line) return { type: "line", zIndex: line.zIndex, id: line.id }
-    }
-    if (this.selectedFreehandIds.size === 1) {
-      const id = this.selectedFreehandIds.values().next().value
-      const freehand = this.freehands.find(f => f.id === id)
-      if (freehand) return { type: "freehand", zIndex: freehand.zIndex, id: freehand.id }
-    }
-    return null
+  // Give the objects the scene's existing zIndex values in the given order (bottom first)
+  private applyLayerOrder(order: SceneItem[]): void {
+    const zIndices = order.map(item => item.obj.zIndex).sort((a, b) => a - b)
+    order.forEach((item, i) => {
+      item.obj.zIndex = zIndices[i]!
+    })
   }
 
-  private getAllZIndices(): number[] {
-    const indices: number[] = []
-    for (const box of this.textBoxes) indices.push(box.zIndex)
-    for (const rect of this.rectangles) indices.push(rect.zIndex)
-    for (const line of this.lines) indices.push(line.zIndex)
-    for (const freehand of this.freehands) indices.push(freehand.zIndex)
-    return indices.sort((a, b) => a - b)
+  // Move the selection one step down (-1) or up (1) the layer order. The selected objects
+  // travel as a block in their current order, passing the whole next object or group.
+  private moveSelectionLayer(direction: -1 | 1): void {
+    const order = getSceneItems(this.getScene())
+    const selected = order.filter(item => this.isItemSelected(item))
+    if (selected.length === 0) return
+    const selectedPositions = order.flatMap((item, i) => this.isItemSelected(item) ? [i] : [])
+    const edge = direction === 1 ? Math.max(...selectedPositions) : Math.min(...selectedPositions)
+    const next = order[edge + direction]
+    if (!next) return  // Already at the top/bottom
+
+    // The object or group to pass, and its far end in the direction of the move
+    const groupId = next.obj.groups[0]
+    const passed = order.filter(item => item === next || (groupId !== undefined && item.obj.groups[0] === groupId))
+    const target = direction === 1 ? passed[passed.length - 1]! : passed[0]!
+
+    this.saveSnapshot()
+    const rest = order.filter(item => !this.isItemSelected(item))
+    const insertAt = rest.indexOf(target) + (direction === 1 ? 1 : 0)
+    rest.splice(insertAt, 0, ...selected)
+    this.applyLayerOrder(rest)
+
+    this.renderer.requestRender()
   }
 
-  private moveLayerDown(): void {
-    const selected = this.getSelectedObject()
-    if (!selected) return
+  // Move the selection above (1) or below (-1) every other object, keeping its internal order
+  private moveSelectionToEdge(direction: -1 | 1): void {
+    const order = getSceneItems(this.getScene())
+    const selected = order.filter(item => this.isItemSelected(item))
+    const rest = order.filter(item => !this.isItemSelected(item))
+    if (selected.length === 0) return
+
+    const newOrder = direction === 1 ? [...rest, ...selected] : [...selected, ...rest]
+    if (newOrder.every((item, i) => item === order[i])) return  // Already there
 
-    const allZIndices = this.getAllZIndices()
-    const currentIndex = allZIndices.indexOf(selected.zIndex)
-    
-    // Find the next lower zIndex
-    if (currentIndex <= 0) return // Already at bottom
-    
-    const lowerZ = allZIndices[currentIndex - 1]!
-    
     this.saveSnapshot()
-    
-    // Swap zIndex values
-    // Find the object with lowerZ and give it our zIndex
-    for (const box of this.textBoxes) {
-      if (box.zIndex === lowerZ) {
-        box.zIndex = selected.zIndex
-        break
-      }
-    }
-    for (const rect of this.rectangles) {
-      if (rect.zIndex === lowerZ) {
-        rect.zIndex = selected.zIndex
-        break
-      }
-    }
-    for (const line of this.lines) {
-      if (line.zIndex === lowerZ) {
-        line.zIndex = selected.zIndex
-        break
-      }
-    }
-    for (const freehand of this.freehands) {
-      if (freehand.zIndex === lowerZ) {
-        freehand.zIndex = selected.zIndex
-        break
-      }
-    }
+    this.applyLayerOrder(newOrder)
+    this.saveStatusMessage = direction === 1 ? "Brought to front" : "Sent to back"
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
 
-    // Give the selected object the lower zIndex
-    if (selected.type === "text") {
-      const box = this.textBoxes.find(b => b.id === selected.id)
-      if (box) box.zIndex = lowerZ
-    } else if (selected.type === "rect") {
-      const rect = this.rectangles.find(r => r.id === selected.id)
-      if (rect) rect.zIndex = lowerZ
-    } else if (selected.type === "line") {
-      const line = this.lines.find(l => l.id === selected.id)
-      if (line) line.zIndex = lowerZ
-    } else if (selected.type === "freehand") {
-      const freehand = this.freehands.find(f => f.id === selected.id)
-      if (freehand) freehand.zIndex = lowerZ
+  // ==================== Groups ====================
+
+  // Wrap the selected objects and groups in a new group (existing groups become nested)
+  private groupSelection(): void {
+    if (this.countSelectedUnits() < 2) {
+      this.saveStatusMessage = "Select at least two objects or groups to group"
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
     }
 
+    this.saveSnapshot()
+    const groupId = this.nextGroupId++
+    const selected = getSceneItems(this.getScene()).filter(item => this.isItemSelected(item))
+    for (const item of selected) {
+      item.obj.groups = [groupId, ...item.obj.groups]
+    }
+    this.saveStatusMessage = `Grouped ${selected.length} objects`
+    this.saveStatusTimeout = Date.now() + 2000
     this.renderer.requestRender()
   }
 
-  private moveLayerUp(): void {
-    const selected = this.getSelectedObject()
-    if (!selected) return
+  // Remove the outermost group of the selection; nested groups are kept
+  private ungroupSelection(): void {
+    const grouped = getSceneItems(this.getScene()).filter(item => this.isItemSelected(item) && item.obj.groups.length > 0)
+    if (grouped.length === 0) {
+      this.saveStatusMessage = "Nothing to ungroup"
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
+    }
 
-    const allZIndices = this.getAllZIndices()
-    const currentIndex = allZIndices.indexOf(selected.zIndex)
-    
-    // Find the next higher zIndex
-    if (currentIndex >= allZIndices.length - 1) return // Already at top
-    
-    const higherZ = allZIndices[currentIndex + 1]!
-    
     this.saveSnapshot()
-    
-    // Swap zIndex values
-    // Find the object with higherZ and give it our zIndex
-    for (const box of this.textBoxes) {
-      if (box.zIndex === higherZ) {
-        box.zIndex = selected.zIndex
-        break
-      }
+    for (const item of grouped) {
+      item.obj.groups = item.obj.groups.slice(1)
     }
-    for (const rect of this.rectangles) {
-      if (rect.zIndex === higherZ) {
-        rect.zIndex = selected.zIndex
-        break
-      }
+    this.saveStatusMessage = "Ungrouped"
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
+  // ==================== Align & Distribute ====================
+
+  // Each selected object with its bounding box and a way to shift it
+  private getSelectedItems(): { bounds: Bounds; moveBy: (dx: number, dy: number) => void }[] {
+    const items: { bounds: Bounds; moveBy: (dx: number, dy: number) => void }[] = []
+    for (const box of this.textBoxes.filter(b => this.isTextBoxSelected(b.id))) {
+      items.push({
+        bounds: getTextBoxBounds(box),
+        moveBy: (dx, dy) => { box.x += dx; box.y += dy },
+      })
+    }
+    for (const rect of this.rectangles.filter(r => this.isRectSelected(r.id))) {
+      items.push({
+        bounds: normalizeRect(rect),
+        moveBy: (dx, dy) => { rect.x1 += dx; rect.x2 += dx; rect.y1 += dy; rect.y2 += dy },
+      })
+    }
+    // Connectors keep only the ends attached to rectangles that move along
+    for (const line of this.lines.filter(l => this.isLineSelected(l.id))) {
+      items.push({
+        bounds: normalizeLine(line),
+        moveBy: (dx, dy) => {
+          translateLine(line, dx, dy)
+          this.detachMovedLine(line)
+        },
+      })
+    }
+    for (const freehand of this.freehands.filter(f => this.isFreehandSelected(f.id) && f.points.length > 0)) {
+      items.push({
+        bounds: getFreehandBounds(freehand),
+        moveBy: (dx, dy) => {
+          for (const point of freehand.points) {
+            point.x += dx
+            point.y += dy
+          }
+        },
+      })
     }
-    for (const line of this.lines) {
-      if (line.zIndex === higherZ) {
-        line.zIndex = selected.zIndex
-        break
-      }
+    return items
+  }
+
+  // Apply per-object offsets as a single undo step
+  private applyItemOffsets(moves: { moveBy: (dx: number, dy: number) => void; dx: number; dy: number }[], status: string): void {
+    const changed = moves.filter(m => m.dx !== 0 || m.dy !== 0)
+    if (changed.length > 0) {
+      this.saveSnapshot()
+      for (const move of changed) move.moveBy(move.dx, move.dy)
+      this.rerouteConnectors()
     }
-    for (const freehand of this.freehands) {
-      if (freehand.zIndex === higherZ) {
-        freehand.zIndex = selected.zIndex
-        break
-      }
+    this.saveStatusMessage = status
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
+  // Line up the bounding boxes of the selection with the selection's own outer edges or center
+  private alignSelection(mode: AlignMode): void {
+    const items = this.getSelectedItems()
+    if (items.length < 2) {
+      this.saveStatusMessage = "Select 2 or more objects to align"
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
     }
 
-    // Give the selected object the higher zIndex
-    if (selected.type === "text") {
-      const box = this.textBoxes.find(b => b.id === selected.id)
-      if (box) box.zIndex = higherZ
-    } else if (selected.type === "rect") {
-      const rect = this.rectangles.find(r => r.id === selected.id)
-      if (rect) rect.zIndex = higherZ
-    } else if (selected.type === "line") {
-      const line = this.lines.find(l => l.id === selected.id)
-      if (line) line.zIndex = higherZ
-    } else if (selected.type === "freehand") {
-      const freehand = this.freehands.find(f => f.id === selected.id)
-      if (freehand) freehand.zIndex = higherZ
+    const all = unionBounds(items.map(i => i.bounds))!
+    const centerX = Math.floor((all.x1 + all.x2) / 2)
+    const centerY = Math.floor((all.y1 + all.y2) / 2)
+
+    const moves = items.map(({ bounds, moveBy }) => {
+      let dx = 0
+      let dy = 0
+      switch (mode) {
+        case "left": dx = all.x1 - bounds.x1; break
+        case "right": dx = all.x2 - bounds.x2; break
+        case "top": dy = all.y1 - bounds.y1; break
+        case "bottom": dy = all.y2 - bounds.y2; break
+        case "center": dx = centerX - Math.floor((bounds.x1 + bounds.x2) / 2); break
+        case "middle": dy = centerY - Math.floor((bounds.y1 + bounds.y2) / 2); break
+      }
+      return { moveBy, dx, dy }
+    })
+    this.applyItemOffsets(moves, `Aligned ${items.length} objects (${mode})`)
+  }
+
+  // Keep the outermost objects in place and make the gaps between neighbours equal
+  private distributeSelection(horizontal: boolean): void {
+    const items = this.getSelectedItems()
+    if (items.length < 3) {
+      this.saveStatusMessage = "Select 3 or more objects to distribute"
+      this.saveStatusTimeout = Date.now() + 2000
+      this.renderer.requestRender()
+      return
     }
 
-    this.renderer.requestRender()
+    const start = (b: Bounds) => horizontal ? b.x1 : b.y1
+    const size = (b: Bounds) => horizontal ? b.x2 - b.x1 + 1 : b.y2 - b.y1 + 1
+    const sorted = [...items].sort((a, b) => start(a.bounds) - start(b.bounds))
+
+    const first = sorted[0]!.bounds
+    const last = sorted[sorted.length - 1]!.bounds
+    const span = start(last) + size(last) - start(first)
+    const totalSize = sorted.reduce((sum, item) => sum + size(item.bounds), 0)
+    const gap = (span - totalSize) / (sorted.length - 1)
+
+    let occupied = 0
+    const moves = sorted.map(({ bounds, moveBy }, i) => {
+      const target = start(first) + occupied + Math.round(gap * i)
+      occupied += size(bounds)
+      const offset = target - start(bounds)
+      return { moveBy, dx: horizontal ? offset : 0, dy: horizontal ? 0 : offset }
+    })
+    this.applyItemOffsets(moves, `Distributed ${items.length} objects ${horizontal ? "horizontally" : "vertically"}`)
   }
 
   // ==================== Tool Management ====================
@@ -2068,6 +5591,24 @@ class CanvasApp {
     this.renderer.requestRender()
   }
 
+  // Step to the next outline style for new shapes, and set it on the selected rectangles and lines
+  private cycleStrokeStyle(): void {
+    const style = STROKE_STYLES[(STROKE_STYLES.indexOf(this.currentStrokeStyle) + 1) % STROKE_STYLES.length]!
+    this.currentStrokeStyle = style
+
+    const shapes = [
+      ...this.rectangles.filter(r => this.selectedRectIds.has(r.id)),
+      ...this.lines.filter(l => this.selectedLineIds.has(l.id)),
+    ]
+    if (shapes.length > 0) {
+      this.saveSnapshot()
+      for (const shape of shapes) shape.strokeStyle = style
+    }
+    this.saveStatusMessage = `Stroke style: ${style}`
+    this.saveStatusTimeout = Date.now() + 2000
+    this.renderer.requestRender()
+  }
+
   private setTool(tool: Tool): void {
     if (this.activeTextBoxId !== null) {
       this.commitActiveTextBox()
@@ -2095,70 +5636,105 @@ class CanvasApp {
 
   // ==================== Rendering ====================
 
-  private render(buffer: OptimizedBuffer): void {
-    const height = Math.min(this.gridHeight, buffer.height - this.TOOLBAR_HEIGHT)
-    const width = Math.min(this.gridWidth, buffer.width)
-
-    // Clear background
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        buffer.setCell(x, y, " ", this.textColor, this.bgColor, 0)
-      }
+  private getScene(): Scene {
+    return {
+      textBoxes: this.textBoxes,
+      rectangles: this.rectangles,
+      lines: this.lines,
+      freehands: this.freehands,
     }
+  }
 
-    // Collect all objects with their zIndex for proper layering
-    type RenderItem =
-      | { type: "text"; obj: TextBox }
-      | { type: "rect"; obj: Rectangle }
-      | { type: "line"; obj: Line }
-      | { type: "freehand"; obj: Freehand }
-
-    const items: RenderItem[] = [
-      ...this.textBoxes.map(obj => ({ type: "text" as const, obj })),
-      ...this.rectangles.map(obj => ({ type: "rect" as const, obj })),
-      ...this.lines.map(obj => ({ type: "line" as const, obj })),
-      ...this.freehands.map(obj => ({ type: "freehand" as const, obj })),
-    ]
-
-    // Sort by zIndex (lower first, so higher zIndex renders on top)
-    items.sort((a, b) => a.obj.zIndex - b.obj.zIndex)
+  // The document scene plus previews of shapes being drawn (always on top)
+  private getRenderScene(): Scene {
+    const scene = this.getScene()
+    const previewZ = this.nextZIndex
 
-    // Render all objects in zIndex order
-    for (const item of items) {
-      if (item.type === "text") {
-        const isSelected = this.isTextBoxSelected(item.obj.id)
-        const isHovered = item.obj.id === this.hoveredTextBoxId && item.obj.id !== this.activeTextBoxId && !isSelected
-        this.renderTextBox(buffer, item.obj, isHovered, isSelected)
-      } else if (item.type === "rect") {
-        const isSelected = this.isRectSelected(item.obj.id)
-        const isHovered = item.obj.id === this.hoveredRectId && !isSelected
-        this.renderRectangle(buffer, item.obj, isHovered, false)
-      } else if (item.type === "line") {
-        const isSelected = this.isLineSelected(item.obj.id)
-        const isHovered = item.obj.id === this.hoveredLineId && !isSelected
-        this.renderLine(buffer, item.obj, isHovered, false)
-      } else if (item.type === "freehand") {
-        const isSelected = this.isFreehandSelected(item.obj.id)
-        const isHovered = item.obj.id === this.hoveredFreehandId && !isSelected
-        this.renderFreehand(buffer, item.obj, isHovered, false)
-      }
-    }
-
-    // Draw previews (while drawing) - always on top
     if (this.isDrawingRect) {
-      this.renderRectanglePreview(buffer)
+      const preview: Rectangle = {
+        id: -1,
+        x1: Math.min(this.drawStartX, this.drawCursorX),
+        y1: Math.min(this.drawStartY, this.drawCursorY),
+        x2: Math.max(this.drawStartX, this.drawCursorX),
+        y2: Math.max(this.drawStartY, this.drawCursorY),
+        strokeStyle: this.currentStrokeStyle,
+        bold: this.boldMode,
+        zIndex: previewZ,
+        hidden: false,
+        locked: false,
+        groups: [],
+        // Preview always shows the outline, even with a transparent stroke
+        strokeColor: this.currentStrokeColor ?? this.textColor,
+        fillColor: null,
+      }
+      scene.rectangles = [...scene.rectangles, preview]
     }
     if (this.isDrawingLine) {
-      this.renderLinePreview(buffer)
+      const preview: Line = {
+        id: -1,
+        x1: this.drawStartX,
+        y1: this.drawStartY,
+        x2: this.drawCursorX,
+        y2: this.drawCursorY,
+        elbow: this.elbowMode,
+        waypoints: this.lineWaypoints.map(p => ({ ...p })),
+        ...this.getDrawnLineBindings(),
+        startMarker: this.currentStartMarker,
+        endMarker: this.currentEndMarker,
+        strokeStyle: this.currentStrokeStyle,
+        bold: this.boldMode,
+        zIndex: previewZ,
+        hidden: false,
+        locked: false,
+        groups: [],
+        strokeColor: this.currentStrokeColor,
+        fillColor: null,
+      }
+      routeConnectors([preview], this.rectangles)
+      scene.lines = [...scene.lines, preview]
     }
     if (this.isDrawingFreehand) {
-      this.renderFreehandPreview(buffer)
+      const preview: Freehand = {
+        id: -1,
+        points: this.tempFreehandPoints,
+        bold: this.boldMode,
+        zIndex: previewZ,
+        hidden: false,
+        locked: false,
+        groups: [],
+        strokeColor: this.currentStrokeColor,
+      }
+      scene.freehands = [...scene.freehands, preview]
     }
+
+    return scene
+  }
+
+  private render(buffer: OptimizedBuffer): void {
+    const height = Math.min(this.gridHeight, buffer.height - this.TOOLBAR_HEIGHT) - this.viewOffsetY
+    const width = Math.min(this.getViewWidth(), buffer.width - this.viewOffsetX)
+
+    // Compose the visible part of the scene (including any in-progress drawing) and blit it
+    const raster = rasterizeScene(this.getRenderScene(), this.viewportX, this.viewportY, Math.max(0, width), Math.max(0, height))
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const cell = raster.get(x + this.viewportX, y + this.viewportY)!
+        const attrs = cell.bold ? TextAttributes.BOLD : 0
+        buffer.setCell(x + this.viewOffsetX, y + this.viewOffsetY, cell.char, cell.fg ?? this.textColor, cell.bg ?? this.bgColor, attrs)
+      }
+    }
+
+    if (this.page) {
+      this.renderPage(buffer, raster, this.page)
+    }
+
+    this.renderHoverHighlight(buffer)
+    this.renderAlignmentGuides(buffer, raster)
+
     if (this.isSelecting) {
       this.renderSelectionBoxPreview(buffer)
     }
 
-
     // Draw active text box border and cursor - on top of everything
     if (this.activeTextBoxId !== null) {
       const activeBox = this.textBoxes.find(b => b.id === this.activeTextBoxId)
@@ -2193,22 +5769,194 @@ class CanvasApp {
         this.renderLineSelectionHighlight(buffer, selectedLine)
       }
     }
-    for (const id of this.selectedFreehandIds) {
-      const selectedFreehand = this.freehands.find(f => f.id === id)
-      if (selectedFreehand) {
-        this.renderFreehandSelectionHighlight(buffer, selectedFreehand)
+    for (const id of this.selectedFreehandIds) {
+      const selectedFreehand = this.freehands.find(f => f.id === id)
+      if (selectedFreehand) {
+        this.renderFreehandSelectionHighlight(buffer, selectedFreehand)
+      }
+    }
+
+    if (this.showRulers) {
+      this.renderRulers(buffer)
+    }
+
+    if (this.showMinimap) {
+      this.renderMinimap(buffer)
+    }
+
+    if (this.showLayersPanel) {
+      this.renderLayersPanel(buffer)
+    }
+
+    // Draw color picker (in bottom right, above toolbar)
+    this.renderColorPicker(buffer)
+
+    // Draw toolbar
+    this.renderToolbar(buffer)
+
+    // Draw save prompt modal if active
+    if (this.showSavePrompt) {
+      this.renderSavePrompt(buffer)
+    }
+  }
+
+  // Dotted guide lines through empty cells; cells with content get a tinted background
+  private renderAlignmentGuides(buffer: OptimizedBuffer, raster: Raster): void {
+    for (const guide of this.alignmentGuides) {
+      for (let along = guide.from; along <= guide.to; along++) {
+        const x = guide.vertical ? guide.position : along
+        const y = guide.vertical ? along : guide.position
+        const cell = raster.get(x, y)
+        const screen = this.worldToScreen(x, y)
+        if (!cell || !screen) continue
+
+        if (isBlankCell(cell)) {
+          const bg = this.readBufferBg(buffer, screen.x, screen.y)
+          buffer.setCell(screen.x, screen.y, guide.vertical ? "┊" : "┈", this.guideColor, bg, 0)
+        } else {
+          this.highlightCell(buffer, x, y, this.guideBgColor)
+        }
+      }
+    }
+  }
+
+  // Shade everything outside the page, outline it, and flag content that lies outside
+  private renderPage(buffer: OptimizedBuffer, raster: Raster, page: PageSize): void {
+    for (let y = raster.y; y < raster.y + raster.height; y++) {
+      for (let x = raster.x; x < raster.x + raster.width; x++) {
+        if (x >= 0 && x < page.width && y >= 0 && y < page.height) continue
+
+        const cell = raster.get(x, y)!
+        if (!isBlankCell(cell)) {
+          this.highlightCell(buffer, x, y, this.offPageContentColor)
+          continue
+        }
+
+        const onVertical = (x === -1 || x === page.width) && y >= -1 && y <= page.height
+        const onHorizontal = (y === -1 || y === page.height) && x >= -1 && x <= page.width
+        let char = " "
+        if (onVertical && onHorizontal) {
+          char = y === -1 ? (x === -1 ? "┌" : "┐") : (x === -1 ? "└" : "┘")
+        } else if (onVertical) {
+          char = "│"
+        } else if (onHorizontal) {
+          char = "─"
+        }
+        const screen = this.worldToScreen(x, y)!
+        buffer.setCell(screen.x, screen.y, char, this.pageBorderColor, this.offPageBgColor, 0)
+      }
+    }
+  }
+
+  // Top ruler labels every 10th column, left ruler every 5th row; the cursor's column and
+  // row are highlighted
+  private renderRulers(buffer: OptimizedBuffer): void {
+    const fg = this.toolbarTextColor
+    for (let x = 0; x < this.viewOffsetX; x++) {
+      buffer.setCell(x, 0, " ", fg, this.rulerBgColor, 0)
+    }
+
+    const labels = new Map<number, string>()
+    for (let screenX = this.viewOffsetX; screenX < this.gridWidth; screenX++) {
+      const worldX = screenX - this.viewOffsetX + this.viewportX
+      if (worldX % 10 === 0) {
+        // Label characters run to the right of the tick
+        Array.from(String(worldX)).forEach((char, i) => labels.set(screenX + i, char))
+      }
+    }
+    for (let screenX = this.viewOffsetX; screenX < this.gridWidth; screenX++) {
+      const worldX = screenX - this.viewOffsetX + this.viewportX
+      const char = labels.get(screenX) ?? (worldX % 5 === 0 ? "╵" : "·")
+      const bg = worldX === this.lastMouseX ? this.toolbarActiveColor : this.rulerBgColor
+      buffer.setCell(screenX, 0, char, fg, bg, 0)
+    }
+
+    for (let screenY = this.viewOffsetY; screenY < this.gridHeight; screenY++) {
+      const worldY = screenY - this.viewOffsetY + this.viewportY
+      const label = worldY % 5 === 0 ? `${String(worldY).padStart(this.viewOffsetX - 1)}╴` : "·".padStart(this.viewOffsetX)
+      const bg = worldY === this.lastMouseY ? this.toolbarActiveColor : this.rulerBgColor
+      Array.from(label.slice(-this.viewOffsetX)).forEach((char, x) => buffer.setCell(x, screenY, char, fg, bg, 0))
+    }
+  }
+
+  // Scaled-down view of every object in braille dots, with the viewport shaded
+  // Braille bits of every minimap cell. Each cell holds 2x4 dots, set from the geometry of the
+  // objects rather than from a raster of the whole design, whose size has no upper bound.
+  private getMinimapDots(layout: MinimapLayout): Uint8Array {
+    const dots = new Uint8Array(layout.width * layout.height)
+    // Set every dot covered by a block of world cells, clipped to the minimap
+    const mark = (x1: number, y1: number, x2: number, y2: number) => {
+      const dotX1 = Math.max(0, Math.floor(((x1 - layout.worldX) * 2) / layout.scale))
+      const dotY1 = Math.max(0, Math.floor(((y1 - layout.worldY) * 4) / layout.scale))
+      const dotX2 = Math.min(layout.width * 2 - 1, Math.floor(((x2 - layout.worldX) * 2) / layout.scale))
+      const dotY2 = Math.min(layout.height * 4 - 1, Math.floor(((y2 - layout.worldY) * 4) / layout.scale))
+      for (let dotY = dotY1; dotY <= dotY2; dotY++) {
+        for (let dotX = dotX1; dotX <= dotX2; dotX++) {
+          dots[Math.floor(dotY / 4) * layout.width + Math.floor(dotX / 2)]! |= BRAILLE_DOTS[dotY % 4]![dotX % 2]!
+        }
+      }
+    }
+
+    const scene = getVisibleScene(this.getScene())
+    for (const box of scene.textBoxes) {
+      box.chars.forEach((c, i) => {
+        if (c.char !== " " || box.fillColor) mark(box.x + i, box.y, box.x + i, box.y)
+      })
+    }
+    for (const rect of scene.rectangles) {
+      const { x1, y1, x2, y2 } = normalizeRect(rect)
+      if (rect.fillColor) {
+        mark(x1, y1, x2, y2)
+      } else if (rect.strokeColor) {
+        mark(x1, y1, x2, y1)
+        mark(x1, y2, x2, y2)
+        mark(x1, y1, x1, y2)
+        mark(x2, y1, x2, y2)
       }
     }
+    for (const line of scene.lines) {
+      for (const { x, y } of getLinePoints(line.x1, line.y1, line.x2, line.y2)) mark(x, y, x, y)
+    }
+    for (const freehand of scene.freehands) {
+      for (const { x, y } of freehand.points) mark(x, y, x, y)
+    }
+    return dots
+  }
 
-    // Draw color picker (in bottom right, above toolbar)
-    this.renderColorPicker(buffer)
-
-    // Draw toolbar
-    this.renderToolbar(buffer)
+  private renderMinimap(buffer: OptimizedBuffer): void {
+    const layout = this.getMinimapLayout()
+    if (!layout) return
+
+    const dots = this.getMinimapDots(layout)
+
+    // Minimap cells overlapped by the viewport
+    const viewX1 = Math.floor((this.viewportX - layout.worldX) / layout.scale)
+    const viewY1 = Math.floor((this.viewportY - layout.worldY) / layout.scale)
+    const viewX2 = Math.floor((this.viewportX + this.getViewWidth() - 1 - layout.worldX) / layout.scale)
+    const viewY2 = Math.floor((this.viewportY + this.getViewHeight() - 1 - layout.worldY) / layout.scale)
+
+    for (let row = -1; row <= layout.height; row++) {
+      for (let col = -1; col <= layout.width; col++) {
+        const screenX = layout.x + col
+        const screenY = layout.y + row
+        const onBorderX = col === -1 || col === layout.width
+        const onBorderY = row === -1 || row === layout.height
+
+        if (onBorderX || onBorderY) {
+          let char = onBorderX ? "│" : "─"
+          if (onBorderX && onBorderY) {
+            char = row === -1 ? (col === -1 ? "┌" : "┐") : (col === -1 ? "└" : "┘")
+          }
+          buffer.setCell(screenX, screenY, char, this.pageBorderColor, this.minimapBgColor, 0)
+          continue
+        }
 
-    // Draw save prompt modal if active
-    if (this.showSavePrompt) {
-      this.renderSavePrompt(buffer)
+        const bits = dots[row * layout.width + col]!
+        const inView = col >= viewX1 && col <= viewX2 && row >= viewY1 && row <= viewY2
+        const char = bits ? String.fromCharCode(0x2800 + bits) : " "
+        const bg = inView ? this.minimapViewportColor : this.minimapBgColor
+        buffer.setCell(screenX, screenY, char, this.toolbarTextColor, bg, 0)
+      }
     }
   }
 
@@ -2260,7 +6008,7 @@ class CanvasApp {
     if (startX + promptWidth - 1 < this.gridWidth && startY + promptHeight - 1 < this.gridHeight) buffer.setCell(startX + promptWidth - 1, startY + promptHeight - 1, "┘", borderColor, bgColor, 0)
     
     // Draw title
-    const title = " Save As "
+    const title = PROMPT_LABELS[this.savePromptMode].title
     const titleX = startX + Math.floor((promptWidth - title.length) / 2)
     for (let i = 0; i < title.length; i++) {
       if (titleX + i >= 0 && titleX + i < this.gridWidth && startY >= 0 && startY < this.gridHeight) {
@@ -2293,7 +6041,7 @@ class CanvasApp {
     }
     
     // Draw hint
-    const hint = "Enter to save, Esc to cancel"
+    const hint = PROMPT_LABELS[this.savePromptMode].hint
     const hintX = startX + Math.floor((promptWidth - hint.length) / 2)
     const hintY = startY + promptHeight - 2
     const hintColor = RGBA.fromInts(150, 150, 150, 255)
@@ -2304,39 +6052,6 @@ class CanvasApp {
     }
   }
 
-  private renderTextBox(buffer: OptimizedBuffer, box: TextBox, isHovered: boolean, isSelected: boolean = false): void {
-    const boxWidth = Math.max(1, box.chars.length)
-
-    for (let i = 0; i < boxWidth; i++) {
-      const x = box.x + i
-      if (x >= 0 && x < this.gridWidth && box.y >= 0 && box.y < this.gridHeight) {
-        // Determine background: selection > hover > fill > existing buffer bg
-        let bg: RGBA
-        if (isSelected) {
-          bg = this.getSelectionBg(x, box.y)
-        } else if (isHovered) {
-          bg = this.hoverColor
-        } else if (box.fillColor !== null) {
-          bg = box.fillColor
-        } else {
-          // Transparent fill - use whatever is already in the buffer
-          bg = this.readBufferBg(buffer, x, box.y)
-        }
-        
-        if (i < box.chars.length) {
-          const charInfo = box.chars[i]!
-          // Use per-character color if set, otherwise fall back to box strokeColor, then default
-          const charColor = charInfo.color ?? box.strokeColor ?? this.textColor
-          const fg = charColor
-          const attrs = charInfo.bold ? TextAttributes.BOLD : 0
-          buffer.setCell(x, box.y, charInfo.char, fg, bg, attrs)
-        } else if (isHovered || isSelected) {
-          buffer.setCell(x, box.y, " ", this.textColor, bg, 0)
-        }
-      }
-    }
-  }
-
   private renderTextBoxBorder(buffer: OptimizedBuffer, box: TextBox, borderColor: RGBA): void {
     const boxWidth = Math.max(1, box.chars.length)
     const x1 = box.x - 1
@@ -2345,10 +6060,11 @@ class CanvasApp {
     const y2 = box.y + 1
 
     const drawBorderCell = (x: number, y: number, char: string) => {
-      if (x >= 0 && x < this.gridWidth && y >= 0 && y < this.gridHeight) {
+      const cell = this.worldToScreen(x, y)
+      if (cell) {
         // Preserve the existing background color
-        const bg = this.readBufferBg(buffer, x, y)
-        buffer.setCell(x, y, char, borderColor, bg, 0)
+        const bg = this.readBufferBg(buffer, cell.x, cell.y)
+        buffer.setCell(cell.x, cell.y, char, borderColor, bg, 0)
       }
     }
 
@@ -2369,201 +6085,14 @@ class CanvasApp {
   private renderTextCursor(buffer: OptimizedBuffer, box: TextBox): void {
     if (!this.cursorBlinkVisible) return
 
-    const cursorX = box.x + this.textCursorPos
-    if (cursorX >= 0 && cursorX < this.gridWidth && box.y >= 0 && box.y < this.gridHeight) {
+    const cell = this.worldToScreen(box.x + this.textCursorPos, box.y)
+    if (cell) {
       const charInfo = this.textCursorPos < box.chars.length ? box.chars[this.textCursorPos]! : null
       const char = charInfo ? charInfo.char : " "
       const isBold = charInfo ? charInfo.bold : this.boldMode
       const fg = this.textColor
       const attrs = isBold ? TextAttributes.BOLD : 0
-      buffer.setCell(cursorX, box.y, char, fg, this.cursorBgColor, attrs)
-    }
-  }
-
-  private renderRectangle(buffer: OptimizedBuffer, rect: Rectangle, isHovered: boolean, _isSelected: boolean): void {
-    const { x1, y1, x2, y2 } = this.normalizeRect(rect)
-    const attrs = rect.bold ? TextAttributes.BOLD : 0
-    const hasStroke = rect.strokeColor !== null
-
-    // Render fill area (interior of rectangle, or full area if no stroke)
-    if (rect.fillColor) {
-      // If no stroke, fill the entire area; otherwise fill only interior
-      const fillX1 = hasStroke ? x1 + 1 : x1
-      const fillY1 = hasStroke ? y1 + 1 : y1
-      const fillX2 = hasStroke ? x2 - 1 : x2
-      const fillY2 = hasStroke ? y2 - 1 : y2
-      
-      for (let y = fillY1; y <= fillY2; y++) {
-        for (let x = fillX1; x <= fillX2; x++) {
-          if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-          buffer.setCell(x, y, " ", this.textColor, rect.fillColor, 0)
-        }
-      }
-    }
-
-    // Render border only if stroke color is not transparent
-    if (hasStroke) {
-      const strokeColor = rect.strokeColor!
-      
-      for (let y = y1; y <= y2; y++) {
-        for (let x = x1; x <= x2; x++) {
-          if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
-          let char = ""
-          if (y === y1 && x === x1) char = "┌"
-          else if (y === y1 && x === x2) char = "┐"
-          else if (y === y2 && x === x1) char = "└"
-          else if (y === y2 && x === x2) char = "┘"
-          else if (y === y1 || y === y2) char = "─"
-          else if (x === x1 || x === x2) char = "│"
-
-          if (char) {
-            let bg = this.bgColor
-            if (isHovered) {
-              bg = this.hoverColor
-            }
-            buffer.setCell(x, y, char, strokeColor, bg, attrs)
-          }
-        }
-      }
-    }
-  }
-
-  private renderRectanglePreview(buffer: OptimizedBuffer): void {
-    const x1 = Math.min(this.drawStartX, this.drawCursorX)
-    const x2 = Math.max(this.drawStartX, this.drawCursorX)
-    const y1 = Math.min(this.drawStartY, this.drawCursorY)
-    const y2 = Math.max(this.drawStartY, this.drawCursorY)
-
-    const fg = this.currentStrokeColor ?? this.textColor
-    const attrs = this.boldMode ? TextAttributes.BOLD : 0
-
-    for (let y = y1; y <= y2; y++) {
-      for (let x = x1; x <= x2; x++) {
-        if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
-        let char = ""
-        if (y === y1 && x === x1) char = "┌"
-        else if (y === y1 && x === x2) char = "┐"
-        else if (y === y2 && x === x1) char = "└"
-        else if (y === y2 && x === x2) char = "┘"
-        else if (y === y1 || y === y2) char = "─"
-        else if (x === x1 || x === x2) char = "│"
-
-        if (char) {
-          buffer.setCell(x, y, char, fg, this.bgColor, attrs)
-        }
-      }
-    }
-  }
-
-  private renderLine(buffer: OptimizedBuffer, line: Line, isHovered: boolean, _isSelected: boolean): void {
-    // Use strokeColor for the line, fall back to text color
-    // Selection highlighting is done separately via renderLineSelectionHighlight
-    const strokeColor = line.strokeColor ?? this.textColor
-    const attrs = line.bold ? TextAttributes.BOLD : 0
-
-    const points = this.getLinePoints(line.x1, line.y1, line.x2, line.y2)
-    
-    for (let i = 0; i < points.length; i++) {
-      const { x, y } = points[i]!
-      if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
-      // Lines always preserve the existing background color
-      let bg = this.readBufferBg(buffer, x, y)
-      if (isHovered) {
-        bg = this.hoverColor
-      }
-
-      const char = this.getLineChar(line.x1, line.y1, line.x2, line.y2, i, points.length)
-      buffer.setCell(x, y, char, strokeColor, bg, attrs)
-    }
-  }
-
-  private renderLinePreview(buffer: OptimizedBuffer): void {
-    const fg = this.currentStrokeColor ?? this.textColor
-    const attrs = this.boldMode ? TextAttributes.BOLD : 0
-
-    const points = this.getLinePoints(this.drawStartX, this.drawStartY, this.drawCursorX, this.drawCursorY)
-
-    for (let i = 0; i < points.length; i++) {
-      const { x, y } = points[i]!
-      if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
-      // Line preview preserves existing background
-      const bg = this.readBufferBg(buffer, x, y)
-      const char = this.getLineChar(this.drawStartX, this.drawStartY, this.drawCursorX, this.drawCursorY, i, points.length)
-      buffer.setCell(x, y, char, fg, bg, attrs)
-    }
-  }
-
-  private renderFreehand(buffer: OptimizedBuffer, freehand: Freehand, isHovered: boolean, _isSelected: boolean): void {
-    const strokeColor = freehand.strokeColor ?? this.textColor
-    const attrs = freehand.bold ? TextAttributes.BOLD : 0
-
-    for (let i = 0; i < freehand.points.length; i++) {
-      const point = freehand.points[i]!
-      if (point.x < 0 || point.x >= this.gridWidth || point.y < 0 || point.y >= this.gridHeight) continue
-
-      let bg = this.readBufferBg(buffer, point.x, point.y)
-      if (isHovered) {
-        bg = this.hoverColor
-      }
-
-      const char = this.getFreehandChar(freehand.points, i)
-      buffer.setCell(point.x, point.y, char, strokeColor, bg, attrs)
-    }
-  }
-
-  private renderFreehandPreview(buffer: OptimizedBuffer): void {
-    const fg = this.currentStrokeColor ?? this.textColor
-    const attrs = this.boldMode ? TextAttributes.BOLD : 0
-
-    for (let i = 0; i < this.tempFreehandPoints.length; i++) {
-      const point = this.tempFreehandPoints[i]!
-      if (point.x < 0 || point.x >= this.gridWidth || point.y < 0 || point.y >= this.gridHeight) continue
-
-      const bg = this.readBufferBg(buffer, point.x, point.y)
-      const char = this.getFreehandChar(this.tempFreehandPoints, i)
-      buffer.setCell(point.x, point.y, char, fg, bg, attrs)
-    }
-  }
-
-  private getFreehandChar(points: { x: number; y: number }[], index: number): string {
-    if (points.length <= 1) return "•"
-
-    const curr = points[index]!
-    const prev = index > 0 ? points[index - 1] : null
-    const next = index < points.length - 1 ? points[index + 1] : null
-
-    // Determine direction from neighbors
-    let dx = 0, dy = 0
-    if (prev && next) {
-      dx = next.x - prev.x
-      dy = next.y - prev.y
-    } else if (next) {
-      dx = next.x - curr.x
-      dy = next.y - curr.y
-    } else if (prev) {
-      dx = curr.x - prev.x
-      dy = curr.y - prev.y
-    }
-
-    // Choose character based on direction
-    if (dx === 0 && dy === 0) return "•"
-    if (Math.abs(dx) > Math.abs(dy)) {
-      // Horizontal dominant
-      return "─"
-    } else if (Math.abs(dy) > Math.abs(dx)) {
-      // Vertical dominant
-      return "│"
-    } else {
-      // Diagonal
-      if ((dx > 0 && dy > 0) || (dx < 0 && dy < 0)) {
-        return "╲"
-      } else {
-        return "╱"
-      }
+      buffer.setCell(cell.x, cell.y, char, fg, this.cursorBgColor, attrs)
     }
   }
 
@@ -2578,7 +6107,8 @@ class CanvasApp {
     // 绘制边框
     for (let y = y1; y <= y2; y++) {
       for (let x = x1; x <= x2; x++) {
-        if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
+        const cell = this.worldToScreen(x, y)
+        if (!cell) continue
 
         let char = ""
         if (y === y1 && x === x1) char = "+"
@@ -2589,43 +6119,13 @@ class CanvasApp {
         else if (x === x1 || x === x2) char = "│"
 
         if (char) {
-          const currentBg = this.readBufferBg(buffer, x, y)
-          buffer.setCell(x, y, char, fg, currentBg, 0)
+          const currentBg = this.readBufferBg(buffer, cell.x, cell.y)
+          buffer.setCell(cell.x, cell.y, char, fg, currentBg, 0)
         }
       }
     }
   }
 
-  private getLineChar(x1: number, y1: number, x2: number, y2: number, index: number, total: number): string {
-    const dx = x2 - x1
-    const dy = y2 - y1
-
-    // Determine line direction and character
-    if (dx === 0) {
-      // Vertical line
-      if (index === 0) return dy > 0 ? "╷" : "╵"
-      if (index === total - 1) return dy > 0 ? "╵" : "╷"
-      return "│"
-    } else if (dy === 0) {
-      // Horizontal line
-      if (index === 0) return dx > 0 ? "╶" : "╴"
-      if (index === total - 1) return dx > 0 ? "╴" : "╶"
-      return "─"
-    } else {
-      // Diagonal line
-      const goingRight = dx > 0
-      const goingDown = dy > 0
-      
-      if (goingRight === goingDown) {
-        // Going down-right or up-left: use backslash-like
-        return "╲"
-      } else {
-        // Going down-left or up-right: use forward slash-like
-        return "╱"
-      }
-    }
-  }
-
   // Read the current character at a buffer position
   private readBufferChar(buffer: OptimizedBuffer, x: number, y: number): string {
     const buffers = buffer.buffers
@@ -2666,6 +6166,63 @@ class CanvasApp {
     return buffers.attributes[index] ?? 0
   }
 
+  // Screen cell of a world position, or null if it's outside the viewport
+  private worldToScreen(x: number, y: number): { x: number; y: number } | null {
+    const screenX = x - this.viewportX + this.viewOffsetX
+    const screenY = y - this.viewportY + this.viewOffsetY
+    const viewRight = this.viewOffsetX + this.getViewWidth()
+    if (screenX < this.viewOffsetX || screenX >= viewRight || screenY < this.viewOffsetY || screenY >= this.gridHeight) {
+      return null
+    }
+    return { x: screenX, y: screenY }
+  }
+
+  // Recolor the background of a cell (in world coordinates) while keeping its glyph
+  private highlightCell(buffer: OptimizedBuffer, worldX: number, worldY: number, bg: RGBA): void {
+    const cell = this.worldToScreen(worldX, worldY)
+    if (!cell) return
+
+    const { x, y } = cell
+    const char = this.readBufferChar(buffer, x, y)
+    const fg = this.readBufferFg(buffer, x, y)
+    const attrs = this.readBufferAttrs(buffer, x, y)
+    buffer.setCell(x, y, char, fg, bg, attrs)
+  }
+
+  private renderHoverHighlight(buffer: OptimizedBuffer): void {
+    const cells: { x: number; y: number }[] = []
+
+    const box = this.textBoxes.find(b => b.id === this.hoveredTextBoxId)
+    if (box && box.id !== this.activeTextBoxId && !this.isTextBoxSelected(box.id)) {
+      const { x1, x2 } = getTextBoxBounds(box)
+      for (let x = x1; x <= x2; x++) cells.push({ x, y: box.y })
+    }
+
+    const rect = this.rectangles.find(r => r.id === this.hoveredRectId)
+    if (rect && !this.isRectSelected(rect.id)) {
+      const { x1, y1, x2, y2 } = normalizeRect(rect)
+      for (let y = y1; y <= y2; y++) {
+        for (let x = x1; x <= x2; x++) {
+          if (y === y1 || y === y2 || x === x1 || x === x2) cells.push({ x, y })
+        }
+      }
+    }
+
+    const line = this.lines.find(l => l.id === this.hoveredLineId)
+    if (line && !this.isLineSelected(line.id)) {
+      cells.push(...getLineCells(line))
+    }
+
+    const freehand = this.freehands.find(f => f.id === this.hoveredFreehandId)
+    if (freehand && !this.isFreehandSelected(freehand.id)) {
+      cells.push(...freehand.points)
+    }
+
+    for (const { x, y } of cells) {
+      this.highlightCell(buffer, x, y, this.hoverColor)
+    }
+  }
+
   // Render selection highlight by reading current buffer content and changing background
   private getSelectionBg(_x: number, _y: number): RGBA {
     // Subtle muted blue for selection highlight
@@ -2677,26 +6234,18 @@ class CanvasApp {
       for (let dx = 0; dx < width; dx++) {
         const x = startX + dx
         const y = startY + dy
-        if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-        
-        const char = this.readBufferChar(buffer, x, y)
-        const fg = this.readBufferFg(buffer, x, y)
-        const attrs = this.readBufferAttrs(buffer, x, y)
-        const bg = this.getSelectionBg(x, y)
-        buffer.setCell(x, y, char, fg, bg, attrs)
+        this.highlightCell(buffer, x, y, this.getSelectionBg(x, y))
       }
     }
   }
 
   private renderRectangleSelectionHighlight(buffer: OptimizedBuffer, rect: Rectangle, showHandles: boolean = true): void {
-    const { x1, y1, x2, y2 } = this.normalizeRect(rect)
+    const { x1, y1, x2, y2 } = normalizeRect(rect)
     const midX = Math.floor((x1 + x2) / 2)
     const midY = Math.floor((y1 + y2) / 2)
 
     for (let y = y1; y <= y2; y++) {
       for (let x = x1; x <= x2; x++) {
-        if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
         // Only highlight cells that are part of the rectangle border
         const isOnBorder = (y === y1 || y === y2 || x === x1 || x === x2)
         if (!isOnBorder) continue
@@ -2712,37 +6261,27 @@ class CanvasApp {
           }
         }
 
-        const char = this.readBufferChar(buffer, x, y)
-        const fg = this.readBufferFg(buffer, x, y)
-        const attrs = this.readBufferAttrs(buffer, x, y)
-        buffer.setCell(x, y, char, fg, bg, attrs)
+        this.highlightCell(buffer, x, y, bg)
       }
     }
   }
 
   private renderLineSelectionHighlight(buffer: OptimizedBuffer, line: Line): void {
-    const points = this.getLinePoints(line.x1, line.y1, line.x2, line.y2)
-
-    for (const { x, y } of points) {
-      if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
+    for (const { x, y } of getLineCells(line)) {
+      this.highlightCell(buffer, x, y, this.getSelectionBg(x, y))
+    }
 
-      const char = this.readBufferChar(buffer, x, y)
-      const fg = this.readBufferFg(buffer, x, y)
-      const attrs = this.readBufferAttrs(buffer, x, y)
-      const bg = this.getSelectionBg(x, y)
-      buffer.setCell(x, y, char, fg, bg, attrs)
+    // Handles on the vertices that can be dragged
+    if (this.getVertexEditLine() === line) {
+      for (const { x, y } of getLineVertices(line)) {
+        this.highlightCell(buffer, x, y, this.handleColor)
+      }
     }
   }
 
   private renderFreehandSelectionHighlight(buffer: OptimizedBuffer, freehand: Freehand): void {
     for (const { x, y } of freehand.points) {
-      if (x < 0 || x >= this.gridWidth || y < 0 || y >= this.gridHeight) continue
-
-      const char = this.readBufferChar(buffer, x, y)
-      const fg = this.readBufferFg(buffer, x, y)
-      const attrs = this.readBufferAttrs(buffer, x, y)
-      const bg = this.getSelectionBg(x, y)
-      buffer.setCell(x, y, char, fg, bg, attrs)
+      this.highlightCell(buffer, x, y, this.getSelectionBg(x, y))
     }
   }
 
@@ -2929,6 +6468,11 @@ class CanvasApp {
     }
   }
 
+  // Size in cells, counting both edges
+  private formatSize(bounds: Bounds): string {
+    return `${bounds.x2 - bounds.x1 + 1}×${bounds.y2 - bounds.y1 + 1}`
+  }
+
   private renderToolbar(buffer: OptimizedBuffer): void {
     const toolbarY = buffer.height - 1
     const width = buffer.width
@@ -2955,15 +6499,75 @@ class CanvasApp {
       drawText(`[${toolInfo.key}] ${toolInfo.name}  `, fg)
     }
 
+    // Active frame; clicking it moves to the next one
+    if (this.frames.length > 1) {
+      this.frameLabelStartX = x
+      drawText(`| ${this.frames[this.activeFrameIndex]!.frame.name} ${this.activeFrameIndex + 1}/${this.frames.length} `, this.toolbarActiveColor)
+      this.frameLabelEndX = x
+    } else {
+      this.frameLabelStartX = this.frameLabelEndX = 0
+    }
+
+    // Outline style, while drawing shapes or with shapes selected; clicking it cycles the style
+    this.strokeStyleLabelStartX = this.strokeStyleLabelEndX = 0
+    if (this.currentTool === "rectangle" || this.currentTool === "line" ||
+        this.selectedRectIds.size > 0 || this.selectedLineIds.size > 0) {
+      const glyphs = STROKE_GLYPHS[this.currentStrokeStyle]
+      drawText("| ", this.toolbarTextColor)
+      this.strokeStyleLabelStartX = x
+      drawText(`${glyphs[BOX_RIGHT | BOX_DOWN]}${glyphs[BOX_LEFT | BOX_RIGHT]} ${this.currentStrokeStyle}`, this.toolbarActiveColor)
+      this.strokeStyleLabelEndX = x
+      drawText(" ", this.toolbarTextColor)
+    }
+
+    // Line end markers, while drawing lines or with lines selected; clicking one cycles it
+    this.markerPickerX = -1
+    this.lineModeLabelStartX = this.lineModeLabelEndX = 0
+    if (this.currentTool === "line" || this.selectedLineIds.size > 0) {
+      drawText("| ", this.toolbarTextColor)
+      this.lineModeLabelStartX = x
+      drawText(this.elbowMode ? "Elbow" : "Straight", this.toolbarActiveColor)
+      this.lineModeLabelEndX = x
+      drawText(" Ends ", this.toolbarTextColor)
+      this.markerPickerX = x
+      const start = getMarkerChar(this.currentStartMarker, -1, 0) ?? (this.currentStartMarker === "full" ? "─" : "╶")
+      const end = getMarkerChar(this.currentEndMarker, 1, 0) ?? (this.currentEndMarker === "full" ? "─" : "╴")
+      drawText(`${start}─${end} `, this.toolbarActiveColor)
+    }
+
+    // World positions of the mouse and of the viewport's top-left corner
+    const pageText = this.page ? ` Page ${this.page.width}x${this.page.height}` : ""
+    drawText(`| ${this.lastMouseX},${this.lastMouseY} `, this.toolbarActiveColor)
+    drawText(`View ${this.viewportX},${this.viewportY}${pageText} `, this.toolbarTextColor)
+
     let modeText = ""
-    if (this.activeTextBoxId !== null) {
+    if (this.isPanArmed) {
+      modeText = "| Drag to pan (Space to cancel)"
+    } else if (this.activeTextBoxId !== null) {
       modeText = "| Editing (Esc to finish)"
+    } else if (this.isResizingRect) {
+      const rect = this.rectangles.find(r => this.isRectSelected(r.id))
+      modeText = rect ? `| Resizing ${this.formatSize(normalizeRect(rect))}` : "| Resizing..."
     } else if (this.currentTool === "move") {
       modeText = "| Click to select, drag to move, drag empty space to box-select"
     } else if (this.currentTool === "text") {
       modeText = "| Click to add/edit text"
-    } else if (this.isDrawingRect || this.isDrawingLine) {
-      modeText = "| Drawing..."
+    } else if (this.isDrawingRect) {
+      modeText = `| Drawing ${this.formatSize({
+        x1: Math.min(this.drawStartX, this.drawCursorX),
+        y1: Math.min(this.drawStartY, this.drawCursorY),
+        x2: Math.max(this.drawStartX, this.drawCursorX),
+        y2: Math.max(this.drawStartY, this.drawCursorY),
+      })}`
+    } else if (this.isDrawingLine) {
+      const length = getLinePoints(this.drawStartX, this.drawStartY, this.drawCursorX, this.drawCursorY).length
+      const bindings = this.getDrawnLineBindings()
+      const kind = bindings.startBinding || bindings.endBinding ? "connector" : "line"
+      modeText = this.elbowMode
+        ? `| Drawing ${kind}, ${this.lineWaypoints.length + 1} vertices (click the last one again or Enter to finish)`
+        : `| Drawing ${kind}, length ${length}`
+    } else if (this.currentTool === "line" && this.elbowMode) {
+      modeText = "| Click to add vertices"
     } else if (this.currentTool === "rectangle" || this.currentTool === "line") {
       modeText = "| Click+drag to draw"
     }
@@ -3048,6 +6652,19 @@ class CanvasApp {
           this.setTool("freehand")
           return
         }
+        if (key.sequence === "s" || key.sequence === "S") {
+          this.cycleStrokeStyle()
+          return
+        }
+        if (key.sequence === "e" || key.sequence === "E") {
+          this.toggleElbowMode()
+          return
+        }
+        // Line end markers: < for the start, > for the end
+        if (key.sequence === "<" || key.sequence === ">") {
+          this.cycleLineMarker(key.sequence === "<" ? "start" : "end")
+          return
+        }
       }
 
       // Save file
@@ -3056,6 +6673,54 @@ class CanvasApp {
         return
       }
 
+      // Export as plain text
+      if (key.name === "e" && key.ctrl && !key.meta) {
+        this.exportFile()
+        return
+      }
+
+      // Rulers
+      if (key.name === "r" && key.ctrl && !key.meta) {
+        this.toggleRulers()
+        return
+      }
+
+      // Minimap
+      if (key.name === "o" && key.ctrl && !key.meta) {
+        this.toggleMinimap()
+        return
+      }
+
+      // Layers panel
+      if (key.name === "k" && key.ctrl && !key.meta) {
+        this.toggleLayersPanel()
+        return
+      }
+
+      // Page size
+      if (key.name === "p" && key.ctrl && !key.meta) {
+        this.editPageSize()
+        return
+      }
+
+      // Frames: Ctrl+N adds one, F2 renames, F8 deletes, PageUp/PageDown switch
+      if (key.name === "n" && key.ctrl && !key.meta) {
+        this.promptNewFrame()
+        return
+      }
+      if (key.name === "f2") {
+        this.promptRenameFrame()
+        return
+      }
+      if (key.name === "f8") {
+        this.promptDeleteFrame()
+        return
+      }
+      if (key.name === "pageup" || key.name === "pagedown") {
+        this.cycleFrame(key.name === "pageup" ? -1 : 1)
+        return
+      }
+
       // Undo/Redo
       if (key.name === "z" && key.ctrl && !key.meta) {
         this.undo()
@@ -3080,6 +6745,16 @@ class CanvasApp {
         return
       }
 
+      // Group/ungroup. Many terminals send Ctrl+Shift+G as plain Ctrl+G, so Alt+G ungroups too.
+      if (key.name === "g" && (key.ctrl || key.meta)) {
+        if (key.shift || key.meta) {
+          this.ungroupSelection()
+        } else {
+          this.groupSelection()
+        }
+        return
+      }
+
       // Clear canvas
       if (key.name === "l" && key.ctrl && !key.meta) {
         this.clearCanvas()
@@ -3090,16 +6765,64 @@ class CanvasApp {
       // Note: Ctrl+[ sends \x1b (escape), Ctrl+] sends \x1d (group separator)
       // We check for both the name and the raw sequence
       if ((key.name === "[" && key.ctrl) || (key.sequence === "\x1b" && !key.name)) {
-        this.moveLayerDown()
+        this.moveSelectionLayer(-1)
         return
       }
       if ((key.name === "]" && key.ctrl) || key.sequence === "\x1d") {
-        this.moveLayerUp()
+        this.moveSelectionLayer(1)
+        return
+      }
+
+      // Space arms panning: the next mouse drag moves the viewport
+      if (key.name === "space" && !this.isDraggingMouse) {
+        this.isPanArmed = !this.isPanArmed
+        this.renderer.requestRender()
+        return
+      }
+
+      // Align (Alt+arrows, Alt+C center, Alt+M middle) and distribute (Alt+H, Alt+V)
+      if (key.meta && !key.ctrl) {
+        const alignModes: Record<string, AlignMode> = {
+          left: "left", right: "right", up: "top", down: "bottom", c: "center", m: "middle",
+        }
+        const alignMode = alignModes[key.name]
+        if (alignMode) {
+          this.alignSelection(alignMode)
+          return
+        }
+        if (key.name === "h" || key.name === "v") {
+          this.distributeSelection(key.name === "h")
+          return
+        }
+        // Bring to front (Alt+F) / send to back (Alt+B)
+        if (key.name === "f" || key.name === "b") {
+          this.moveSelectionToEdge(key.name === "f" ? 1 : -1)
+          return
+        }
+      }
+
+      // Arrow keys pan the viewport (Shift for larger steps)
+      if (key.name === "up" || key.name === "down" || key.name === "left" || key.name === "right") {
+        const step = key.shift ? this.KEY_PAN_STEP_LARGE : this.KEY_PAN_STEP
+        const dx = key.name === "left" ? -step : key.name === "right" ? step : 0
+        const dy = key.name === "up" ? -step : key.name === "down" ? step : 0
+        this.panBy(dx, dy)
+        return
+      }
+
+      // Enter ends an elbow line at its last vertex
+      if (key.name === "return" && this.isDrawingLine) {
+        this.finishElbowLine()
         return
       }
 
       // Escape (for drawing modes)
       if (key.name === "escape") {
+        if (this.isPanArmed) {
+          this.isPanArmed = false
+          this.renderer.requestRender()
+          return
+        }
         if (this.isDrawingRect) {
           this.isDrawingRect = false
           this.renderer.requestRender()
@@ -3133,6 +6856,7 @@ class CanvasApp {
             this.freehands = this.freehands.filter(f => f.id !== id)
           }
           this.clearSelection()
+          this.rerouteConnectors()
           this.renderer.requestRender()
           return
         }
@@ -3221,7 +6945,216 @@ class CanvasApp {
   }
 }
 
+// ==================== CLI ====================
+
+const EXIT_OK = 0
+const EXIT_FAILURE = 1
+const EXIT_USAGE = 2
+
+const USAGE = `Usage:
+  tigma [file.tigma]                   Open the editor
+  tigma render <file.tigma> [options]  Render a design without a terminal
+  tigma sync-md <file.md...> [--check] Regenerate diagrams tagged <!-- tigma: path[#frame] -->
+  tigma import <file> [-o out.tigma]   Convert ${Object.keys(IMPORT_EXTENSIONS).join(", ")} into a .tigma design
+
+Render options:
+  -f, --format <format>  ${Object.keys(EXPORT_FORMATS).join(", ")} (default: txt)
+  -o, --output <path>    Write to a file instead of stdout
+  --colors <depth>       ANSI color depth: truecolor, 256 (default: from $COLORTERM)
+  --frame <name>         Render this frame instead of the first one
+`
+
+interface RenderOptions {
+  input: string
+  format: ExportFormat
+  output: string | null
+  colorDepth: ColorDepth
+  frame: string | null  // null: the first frame
+}
+
+// Throws with a user-facing message on invalid arguments
+function parseRenderArgs(args: string[]): RenderOptions {
+  let input: string | null = null
+  let format: ExportFormat = "txt"
+  let output: string | null = null
+  let colorDepth = detectColorDepth()
+  let frame: string | null = null
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === "-f" || arg === "--format") {
+      const value = args[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      if (!isExportFormat(value)) throw new Error(`Unknown format: ${value}`)
+      format = value
+    } else if (arg === "-o" || arg === "--output") {
+      const value = args[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      output = value
+    } else if (arg === "--colors") {
+      const value = args[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      if (value !== "truecolor" && value !== "256") throw new Error(`Unknown color depth: ${value}`)
+      colorDepth = value
+    } else if (arg === "--frame") {
+      const value = args[++i]
+      if (value === undefined) throw new Error(`Missing value for ${arg}`)
+      frame = value
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option: ${arg}`)
+    } else if (input === null) {
+      input = arg
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`)
+    }
+  }
+
+  if (input === null) throw new Error("Missing input file")
+  return { input, format, output, colorDepth, frame }
+}
+
+function runRender(args: string[]): number {
+  let options: RenderOptions
+  try {
+    options = parseRenderArgs(args)
+  } catch (err) {
+    console.error(`${(err as Error).message}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  let data: TigmaFile
+  const issues: FileIssue[] = []
+  try {
+    data = loadDesignFile(path.resolve(options.input), issues)
+  } catch (err) {
+    console.error(`Failed to load file: ${err}`)
+    return EXIT_FAILURE
+  }
+  for (const issue of issues) {
+    console.error(`${options.input}: warning: ${formatFileIssue(issue)}`)
+  }
+
+  let frame: TigmaFrame
+  try {
+    frame = findFrame(data, options.frame)
+  } catch (err) {
+    console.error((err as Error).message)
+    return EXIT_FAILURE
+  }
+
+  const result = EXPORT_FORMATS[options.format](sceneFromFrame(frame), {
+    colorDepth: options.colorDepth,
+    page: frame.page,
+  })
+
+  try {
+    if (options.output) {
+      fs.writeFileSync(path.resolve(options.output), result)
+    } else {
+      process.stdout.write(result)
+    }
+  } catch (err) {
+    console.error(`Failed to write output: ${err}`)
+    return EXIT_FAILURE
+  }
+
+  return EXIT_OK
+}
+
+// Rewrites tagged fences in place; with --check only reports stale blocks
+function runSyncMarkdown(args: string[]): number {
+  const check = args.includes("--check")
+  const files = args.filter(a => a !== "--check")
+
+  const unknown = files.find(f => f.startsWith("-"))
+  if (unknown || files.length === 0) {
+    console.error(`${unknown ? `Unknown option: ${unknown}` : "Missing markdown file"}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  let exitCode = EXIT_OK
+  for (const file of files) {
+    const filePath = path.resolve(file)
+    try {
+      const markdown = fs.readFileSync(filePath, "utf-8")
+      const result = syncMarkdown(markdown, path.dirname(filePath))
+      for (const issue of result.issues) {
+        console.error(`${file}: warning: ${issue}`)
+      }
+
+      if (check) {
+        for (const source of result.stale) {
+          console.error(`${file}: diagram from ${source} is out of date`)
+        }
+        if (result.stale.length > 0) exitCode = EXIT_FAILURE
+      } else if (result.content !== markdown) {
+        fs.writeFileSync(filePath, result.content)
+        console.log(`${file}: updated ${result.stale.length} of ${result.blocks} diagram(s)`)
+      }
+    } catch (err) {
+      console.error(`${file}: ${err}`)
+      exitCode = EXIT_FAILURE
+    }
+  }
+
+  return exitCode
+}
+
+function runImport(args: string[]): number {
+  let input: string | null = null
+  let output: string | null = null
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]!
+    if (arg === "-o" || arg === "--output") {
+      output = args[++i] ?? null
+      if (output === null) {
+        console.error(`Missing value for ${arg}\n\n${USAGE}`)
+        return EXIT_USAGE
+      }
+    } else if (arg.startsWith("-") || input !== null) {
+      console.error(`Unexpected argument: ${arg}\n\n${USAGE}`)
+      return EXIT_USAGE
+    } else {
+      input = arg
+    }
+  }
+
+  if (input === null || !isImportPath(input)) {
+    console.error(`${input === null ? "Missing input file" : `Unsupported import format: ${input}`}\n\n${USAGE}`)
+    return EXIT_USAGE
+  }
+
+  try {
+    const data = loadDesignFile(path.resolve(input))
+    const target = output ?? `${input.slice(0, -path.extname(input).length)}.tigma`
+    fs.writeFileSync(path.resolve(target), JSON.stringify(data, null, 2))
+  } catch (err) {
+    console.error(`Failed to import file: ${err}`)
+    return EXIT_FAILURE
+  }
+
+  return EXIT_OK
+}
+
 async function main() {
+  const args = process.argv.slice(2)
+
+  // Non-interactive subcommands never start the terminal renderer
+  if (args[0] === "render") {
+    process.exit(runRender(args.slice(1)))
+  }
+  if (args[0] === "sync-md") {
+    process.exit(runSyncMarkdown(args.slice(1)))
+  }
+  if (args[0] === "import") {
+    process.exit(runImport(args.slice(1)))
+  }
+  if (args[0] === "help" || args[0] === "--help" || args[0] === "-h") {
+    process.stdout.write(USAGE)
+    process.exit(EXIT_OK)
+  }
+
   const renderer = await createCliRenderer({
     exitOnCtrlC: true,
     targetFps: 60,
@@ -3234,7 +7167,6 @@ async function main() {
   const app = new CanvasApp(renderer)
 
   // Check for filename argument
-  const args = process.argv.slice(2)
   if (args.length > 0) {
     const filePath = args[0]!
     app.loadFile(filePath)